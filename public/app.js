@@ -6,6 +6,11 @@ const input = document.getElementById("input");
 const sessionListEl = document.getElementById("session-list");
 const newSessionBtn = document.getElementById("new-session");
 const heartbeatBanner = document.getElementById("heartbeat-banner");
+const usageEl = document.getElementById("usage");
+const sendBtn = form.querySelector("button[type=submit]");
+const stopBtn = document.getElementById("stop");
+const attachBtn = document.getElementById("attach");
+const attachInput = document.getElementById("attach-input");
 
 // Configure marked
 marked.setOptions({
@@ -24,10 +29,13 @@ const ws = new WebSocket(`${protocol}//${location.host}`);
 let currentSessionId = null;
 let assistantEl = null;
 let assistantText = "";
+let textEl = null;
+let thinkingEl = null;
 let sending = false;
 
 ws.onopen = () => {
   ws.send(JSON.stringify({ method: "session.list" }));
+  ws.send(JSON.stringify({ method: "session.usage" }));
 };
 
 ws.onmessage = (e) => {
@@ -47,48 +55,115 @@ ws.onmessage = (e) => {
     case "chat.history":
       currentSessionId = msg.data.sessionId;
       renderHistory(msg.data.messages);
+      ws.send(JSON.stringify({ method: "session.usage", params: { sessionId: currentSessionId } }));
+      break;
+
+    case "session.usage":
+      renderUsage(msg.data);
+      break;
+
+    case "thinking":
+      if (!assistantEl) {
+        assistantEl = addMessage("assistant", "");
+        assistantText = "";
+      }
+      textEl = null;
+      if (!thinkingEl) {
+        const details = document.createElement("details");
+        details.className = "thinking-block";
+        details.innerHTML = "<summary>Thinking</summary><pre></pre>";
+        assistantEl.appendChild(details);
+        thinkingEl = details.querySelector("pre");
+      }
+      thinkingEl.textContent += msg.data.text;
+      messagesEl.scrollTop = messagesEl.scrollHeight;
       break;
 
     case "chunk":
+      thinkingEl = null;
       if (!assistantEl) {
         assistantEl = addMessage("assistant", "");
         assistantText = "";
       }
+      if (!textEl) assistantText = "";
       assistantText += msg.data.text;
-      assistantEl.innerHTML = marked.parse(assistantText);
+      renderAssistantText();
       messagesEl.scrollTop = messagesEl.scrollHeight;
       break;
 
+    case "tool_approval_request": {
+      const block = addToolBlock(msg.data);
+      block.open = true;
+      block.appendChild(approvalControls(msg.data.id));
+      messagesEl.scrollTop = messagesEl.scrollHeight;
+      break;
+    }
+
     case "tool_start": {
-      const details = document.createElement("details");
-      details.className = "tool-block";
-      details.id = `tool-${msg.data.name}-${Date.now()}`;
-      details.innerHTML =
-        `<summary>Tool: ${msg.data.name}</summary>` +
-        `<pre>${escapeHtml(JSON.stringify(msg.data.input, null, 2))}</pre>`;
-      (assistantEl || messagesEl).appendChild(details);
+      // An approved call already has its block
+      const block = document.getElementById(`tool-${msg.data.id}`) || addToolBlock(msg.data);
+      block.querySelector(".approval")?.remove();
+      break;
+    }
+
+    case "tool_progress": {
+      // Live output; replaced by the result when the tool finishes
+      const block = document.getElementById(`tool-${msg.data.id}`);
+      if (block) {
+        let live = block.querySelector(".tool-progress");
+        if (!live) {
+          live = document.createElement("pre");
+          live.className = "tool-progress";
+          block.appendChild(live);
+          block.open = true;
+        }
+        // Keep the tail; that is where a running command is
+        live.textContent = (live.textContent + msg.data.text).slice(-20000);
+        live.scrollTop = live.scrollHeight;
+      }
       break;
     }
 
     case "tool_end": {
-      const blocks = document.querySelectorAll(".tool-block");
-      const last = blocks[blocks.length - 1];
-      if (last) {
+      // Concurrent tools finish out of order, so match on the tool_use id
+      const block = document.getElementById(`tool-${msg.data.id}`);
+      if (block) {
+        block.querySelector(".approval")?.remove();
+        block.querySelector(".tool-progress")?.remove();
         const resultPre = document.createElement("pre");
         resultPre.textContent = truncate(msg.data.result, 2000);
-        last.appendChild(resultPre);
+        block.appendChild(resultPre);
+        if (msg.data.isError) block.classList.add("tool-error");
+        const details = formatToolMetadata(msg.data.metadata);
+        if (details) block.querySelector("summary").textContent += ` (${details})`;
       }
       break;
     }
 
+    case "interrupted":
+      addNote("Interrupted");
+      break;
+
+    case "budget_exhausted":
+      addNote(`Turn budget exhausted (${msg.data.limit.replace("_", " ")}), summarizing`);
+      break;
+
+    case "continuation":
+      // Continued text starts a new segment below the note
+      textEl = null;
+      thinkingEl = null;
+      addNote(`Response hit the token limit, continuing (${msg.data.count})`);
+      break;
+
     case "done":
       assistantEl = null;
       assistantText = "";
-      sending = false;
-      input.disabled = false;
-      form.querySelector("button").disabled = false;
+      textEl = null;
+      thinkingEl = null;
+      setSending(false);
       currentSessionId = msg.data.sessionId;
       ws.send(JSON.stringify({ method: "session.list" }));
+      ws.send(JSON.stringify({ method: "session.usage", params: { sessionId: currentSessionId } }));
       break;
 
     case "heartbeat":
@@ -99,34 +174,67 @@ ws.onmessage = (e) => {
 
     case "error":
       addMessage("assistant", `Error: ${msg.data.message}`);
-      sending = false;
-      input.disabled = false;
-      form.querySelector("button").disabled = false;
+      setSending(false);
       break;
   }
 };
 
+// Attachments
+attachBtn.addEventListener("click", () => attachInput.click());
+attachInput.addEventListener("change", () => {
+  const count = attachInput.files.length;
+  attachBtn.textContent = count ? `+${count}` : "+";
+  attachBtn.classList.toggle("has-files", count > 0);
+});
+
+function readAttachment(file) {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      // Strip the "data:<type>;base64," prefix
+      const data = String(reader.result).split(",", 2)[1];
+      resolve({ name: file.name, mediaType: file.type, data });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
 // Send message
-form.addEventListener("submit", (e) => {
+form.addEventListener("submit", async (e) => {
   e.preventDefault();
   const text = input.value.trim();
-  if (!text || sending) return;
+  const files = Array.from(attachInput.files);
+  if ((!text && files.length === 0) || sending) return;
 
-  sending = true;
-  input.disabled = true;
-  form.querySelector("button").disabled = true;
+  setSending(true);
 
-  addMessage("user", text);
+  const attachments = await Promise.all(files.map(readAttachment));
+  const userEl = addMessage("user", text);
+  if (attachments.length > 0) {
+    const names = document.createElement("div");
+    names.className = "attachments";
+    names.textContent = attachments.map((a) => a.name).join(", ");
+    userEl.appendChild(names);
+  }
   input.value = "";
+  attachInput.value = "";
+  attachInput.dispatchEvent(new Event("change"));
 
   ws.send(
     JSON.stringify({
       method: "chat.send",
-      params: { text, sessionId: currentSessionId },
+      params: { text, attachments, sessionId: currentSessionId },
     })
   );
 });
 
+// Cancel the running turn
+stopBtn.addEventListener("click", () => {
+  ws.send(JSON.stringify({ method: "chat.cancel" }));
+  stopBtn.disabled = true;
+});
+
 // Enter to send, Shift+Enter for newline
 input.addEventListener("keydown", (e) => {
   if (e.key === "Enter" && !e.shiftKey) {
@@ -147,6 +255,15 @@ heartbeatBanner.addEventListener("click", () => {
 
 // Helpers
 
+function setSending(value) {
+  sending = value;
+  input.disabled = value;
+  sendBtn.disabled = value;
+  sendBtn.classList.toggle("hidden", value);
+  stopBtn.disabled = false;
+  stopBtn.classList.toggle("hidden", !value);
+}
+
 function addMessage(role, content) {
   const div = document.createElement("div");
   div.className = `message ${role}`;
@@ -156,20 +273,118 @@ function addMessage(role, content) {
   return div;
 }
 
+// Render streamed markdown into the current text segment. A new segment
+// starts after each thinking or tool block so they stay in stream order.
+function renderAssistantText() {
+  if (!textEl) {
+    textEl = document.createElement("div");
+    textEl.className = "assistant-text";
+    assistantEl.appendChild(textEl);
+  }
+  textEl.innerHTML = marked.parse(assistantText);
+}
+
+function addToolBlock({ id, name, input }) {
+  thinkingEl = null;
+  textEl = null;
+  const details = document.createElement("details");
+  details.className = "tool-block";
+  details.id = `tool-${id}`;
+  details.innerHTML =
+    `<summary>Tool: ${name}</summary>` +
+    `<pre>${escapeHtml(JSON.stringify(input, null, 2))}</pre>`;
+  (assistantEl || messagesEl).appendChild(details);
+  return details;
+}
+
+// Buttons to answer a tool_approval_request; the turn waits until one is used
+function approvalControls(id) {
+  const bar = document.createElement("div");
+  bar.className = "approval";
+  bar.innerHTML =
+    '<button data-scope="once">Allow once</button>' +
+    '<button data-scope="session">Allow for session</button>' +
+    '<input type="text" placeholder="Reason (optional)">' +
+    '<button class="deny">Deny</button>';
+  const reasonInput = bar.querySelector("input");
+  for (const button of bar.querySelectorAll("button[data-scope]")) {
+    button.addEventListener("click", () => {
+      ws.send(JSON.stringify({ method: "tool.approve", params: { id, scope: button.dataset.scope } }));
+      bar.remove();
+    });
+  }
+  bar.querySelector(".deny").addEventListener("click", () => {
+    ws.send(JSON.stringify({ method: "tool.deny", params: { id, reason: reasonInput.value.trim() } }));
+    bar.remove();
+  });
+  return bar;
+}
+
+function addNote(text) {
+  const note = document.createElement("div");
+  note.className = "note";
+  note.textContent = text;
+  (assistantEl || messagesEl).appendChild(note);
+}
+
 function renderHistory(messages) {
   messagesEl.innerHTML = "";
   for (const msg of messages) {
+    const blocks = typeof msg.content === "string" ? [] : msg.content;
     const text =
       typeof msg.content === "string"
         ? msg.content
-        : msg.content
+        : blocks
             .filter((b) => b.type === "text")
             .map((b) => b.text)
             .join("");
-    if (text) addMessage(msg.role, text);
+    const media = blocks.filter((b) => b.type === "image" || b.type === "document");
+    if (!text && media.length === 0) continue;
+
+    const el = addMessage(msg.role, text);
+    for (const block of media) {
+      if (block.type === "image") {
+        const img = document.createElement("img");
+        img.src = `data:${block.source.media_type};base64,${block.source.data}`;
+        el.appendChild(img);
+      } else {
+        const doc = document.createElement("div");
+        doc.className = "attachments";
+        doc.textContent = block.title || "PDF document";
+        el.appendChild(doc);
+      }
+    }
   }
 }
 
+function formatToolMetadata(metadata) {
+  if (!metadata) return "";
+  const parts = [];
+  if (metadata.durationMs !== undefined) {
+    parts.push(metadata.durationMs < 1000
+      ? `${metadata.durationMs} ms`
+      : `${(metadata.durationMs / 1000).toFixed(1)} s`);
+  }
+  if (metadata.exitCode) parts.push(`exit ${metadata.exitCode}`);
+  if (metadata.truncated) parts.push("truncated");
+  return parts.join(", ");
+}
+
+function formatUsage(totals) {
+  const tokens = totals.inputTokens + totals.outputTokens + totals.cacheReadTokens + totals.cacheWriteTokens;
+  const cached = totals.cacheReadTokens
+    ? ` (${totals.cacheReadTokens.toLocaleString()} cached)`
+    : "";
+  return `${tokens.toLocaleString()} tokens${cached}, $${totals.cost.toFixed(4)}`;
+}
+
+function renderUsage(data) {
+  const lines = [];
+  if (data.session) lines.push(`Session: ${formatUsage(data.session)}`);
+  lines.push(`All sessions: ${formatUsage(data.all)}`);
+  usageEl.textContent = lines.join("\n");
+}
+
 function formatSessionLabel(session) {
   const date = new Date(session.lastActive);
   const now = new Date();
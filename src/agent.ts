@@ -1,62 +1,202 @@
 import Anthropic from "@anthropic-ai/sdk";
 import OpenAI from "openai";
-import type { SlimClawConfig } from "./config.js";
-import type { Session, Message, ContentBlock } from "./session.js";
-import { appendMessage } from "./session.js";
-import type { Tool } from "./tools.js";
+import type {
+  SlimClawConfig,
+  Provider,
+  ReasoningEffort,
+  ModelPurpose,
+  SamplingOptions,
+  ToolChoice,
+} from "./config.js";
+import { configForPurpose, configForFallback } from "./config.js";
+import { RetryingClient } from "./retry.js";
+import { MockClient, loadMockScript } from "./mock.js";
+import { CassetteClient, CassetteStore } from "./cassette.js";
+import type {
+  Session,
+  Message,
+  ContentBlock,
+  TextBlock,
+  ImageBlock,
+  DocumentBlock,
+  ToolResultContent,
+  PermissionRecord,
+} from "./session.js";
+import { appendMessage, appendUsage, appendPermission } from "./session.js";
+import type { Tool, ToolContext, ToolResult, ToolResultMetadata } from "./tools.js";
+import { toolError, toToolResult } from "./tools.js";
+import { validateInput } from "./schema.js";
+import {
+  grantedForSession,
+  grantForSession,
+  unattendedDecision,
+  waitForDecision,
+  denialMessage,
+} from "./approval.js";
+import type { ApprovalDecision, ApprovalHandler } from "./approval.js";
+import { checkPermission, describeRule, permissionDeniedMessage } from "./permissions.js";
+import { parseToolArguments } from "./repair.js";
 import type { Skill } from "./skills.js";
-import { prepareContext } from "./context.js";
+import { promptVariables, renderTemplate, loadPromptTemplate, loadBootstrapFiles } from "./prompt.js";
+import { prepareContext, CHARS_PER_TOKEN } from "./context.js";
+import { TurnBudget, budgetExhaustedNotice } from "./budget.js";
+import type { BudgetLimit } from "./budget.js";
+import type { Usage } from "./usage.js";
 
 // ---------- Types ----------
 
+export type ThinkingBlock = Extract<ContentBlock, { type: "thinking" | "redacted_thinking" }>;
+
 export type StreamEvent =
   | { type: "text"; text: string }
-  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
-  | { type: "tool_start"; name: string; input: Record<string, unknown> }
-  | { type: "tool_end"; name: string; result: string }
-  | { type: "message_stop"; stop_reason: string };
+  | { type: "thinking"; text: string }
+  | { type: "thinking_block"; block: ThinkingBlock }
+  | {
+      type: "tool_use";
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+      /** Set when the arguments could not be parsed; the call is answered with an error. */
+      inputError?: string;
+    }
+  /** The turn is paused until the call is approved or denied. */
+  | { type: "tool_approval_request"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_start"; id: string; name: string; input: Record<string, unknown> }
+  /** Output a running tool has produced so far (e.g. bash stdout/stderr). */
+  | { type: "tool_progress"; id: string; name: string; text: string }
+  | {
+      type: "tool_end";
+      id: string;
+      name: string;
+      result: string;
+      isError: boolean;
+      metadata?: ToolResultMetadata;
+    }
+  | { type: "usage"; usage: Usage; model?: string }
+  | { type: "message_stop"; stop_reason: string }
+  | { type: "interrupted" }
+  | { type: "budget_exhausted"; limit: BudgetLimit }
+  | { type: "continuation"; count: number };
 
 // ---------- LLM Client Interface ----------
 
+export interface LLMStreamParams {
+  model: string;
+  system: string;
+  messages: Message[];
+  tools: Tool["definition"][];
+  max_tokens: number;
+  /** Extended thinking budget; providers without thinking support ignore it. */
+  thinking?: { budgetTokens: number };
+  /** Reasoning effort for OpenAI reasoning models; ignored elsewhere. */
+  reasoningEffort?: ReasoningEffort;
+  temperature?: number;
+  topP?: number;
+  stopSequences?: string[];
+  /** Which tool, if any, the model must call; only sent when tools are given. */
+  toolChoice?: ToolChoice;
+  /** Place prompt cache breakpoints; providers that cache automatically ignore it. */
+  cache?: boolean;
+  /** Aborts the underlying HTTP request when the turn is cancelled. */
+  signal?: AbortSignal;
+}
+
 export interface LLMClient {
-  stream(params: {
-    model: string;
-    system: string;
-    messages: Message[];
-    tools: Tool["definition"][];
-    max_tokens: number;
-  }): AsyncIterable<StreamEvent>;
+  stream(params: LLMStreamParams): AsyncIterable<StreamEvent>;
 }
 
 // ---------- Anthropic Client ----------
 
+function anthropicToolChoice(choice: ToolChoice): Anthropic.ToolChoice {
+  return typeof choice === "object" ? { type: "tool", name: choice.name } : { type: choice };
+}
+
+const EPHEMERAL = { type: "ephemeral" } as const;
+
+/**
+ * Put a cache breakpoint on the last block of the newest message, so the next
+ * round-trip of the turn reads the whole history from the cache. Thinking
+ * blocks cannot carry cache_control, so the last other block is used.
+ */
+function withHistoryCacheMark(messages: Message[]): Anthropic.MessageParam[] {
+  const result = messages as Anthropic.MessageParam[];
+  const last = result.at(-1);
+  if (!last) return result;
+
+  const content: Anthropic.ContentBlockParam[] =
+    typeof last.content === "string" ? [{ type: "text", text: last.content }] : [...last.content];
+  for (let i = content.length - 1; i >= 0; i--) {
+    const block = content[i];
+    if (block.type === "thinking" || block.type === "redacted_thinking") continue;
+    content[i] = { ...block, cache_control: EPHEMERAL };
+    return [...result.slice(0, -1), { ...last, content }];
+  }
+  return result;
+}
+
 class AnthropicClient implements LLMClient {
   private client: Anthropic;
 
-  constructor(apiKey?: string) {
-    this.client = new Anthropic({ apiKey });
+  constructor(apiKey?: string, headers?: Record<string, string>) {
+    // Retries are handled by RetryingClient, not the SDK
+    this.client = new Anthropic({ apiKey, defaultHeaders: headers, maxRetries: 0 });
   }
 
-  async *stream(params: {
-    model: string;
-    system: string;
-    messages: Message[];
-    tools: Tool["definition"][];
-    max_tokens: number;
-  }): AsyncIterable<StreamEvent> {
-    const toolDefs = params.tools.map((t) => ({
+  async *stream(params: LLMStreamParams): AsyncIterable<StreamEvent> {
+    const toolDefs: Anthropic.Tool[] = params.tools.map((t) => ({
       name: t.name,
       description: t.description,
       input_schema: t.input_schema as Anthropic.Tool["input_schema"],
     }));
 
-    const stream = this.client.messages.stream({
-      model: params.model,
-      system: params.system,
-      messages: params.messages as Anthropic.MessageParam[],
-      tools: toolDefs.length > 0 ? toolDefs : undefined,
-      max_tokens: params.max_tokens,
-    });
+    // Anthropic rejects thinking on calls that force a tool, and sampling
+    // settings other than the defaults while thinking
+    const forcesTool = params.toolChoice === "any" || typeof params.toolChoice === "object";
+    const thinking = forcesTool ? undefined : params.thinking;
+
+    // Thinking blocks must be dropped when thinking is off for this request
+    const messages = thinking
+      ? params.messages
+      : params.messages.map((msg) =>
+          typeof msg.content === "string"
+            ? msg
+            : {
+                ...msg,
+                content: msg.content.filter(
+                  (b) => b.type !== "thinking" && b.type !== "redacted_thinking",
+                ),
+              },
+        );
+
+    // Breakpoints on tools, system and history cache the prompt prefix that
+    // every round-trip of a turn resends
+    if (params.cache && toolDefs.length > 0) {
+      toolDefs[toolDefs.length - 1] = { ...toolDefs[toolDefs.length - 1], cache_control: EPHEMERAL };
+    }
+
+    const stream = this.client.messages.stream(
+      {
+        model: params.model,
+        system: params.cache
+          ? [{ type: "text", text: params.system, cache_control: EPHEMERAL }]
+          : params.system,
+        messages: params.cache
+          ? withHistoryCacheMark(messages)
+          : (messages as Anthropic.MessageParam[]),
+        tools: toolDefs.length > 0 ? toolDefs : undefined,
+        tool_choice:
+          params.toolChoice && toolDefs.length > 0
+            ? anthropicToolChoice(params.toolChoice)
+            : undefined,
+        // The thinking budget comes on top of the answer's max_tokens
+        max_tokens: params.max_tokens + (thinking?.budgetTokens ?? 0),
+        thinking: thinking ? { type: "enabled", budget_tokens: thinking.budgetTokens } : undefined,
+        temperature: thinking ? undefined : params.temperature,
+        top_p: thinking ? undefined : params.topP,
+        stop_sequences: params.stopSequences,
+      },
+      { signal: params.signal },
+    );
 
     for await (const event of stream) {
       if (event.type === "content_block_delta") {
@@ -64,6 +204,9 @@ class AnthropicClient implements LLMClient {
         if (delta.type === "text_delta") {
           yield { type: "text", text: delta.text as string };
         }
+        if (delta.type === "thinking_delta") {
+          yield { type: "thinking", text: delta.thinking as string };
+        }
         if (delta.type === "input_json_delta") {
           // Tool input streamed incrementally - we collect in message_stop
         }
@@ -72,8 +215,25 @@ class AnthropicClient implements LLMClient {
 
     // After stream ends, get the final message
     const finalMessage = await stream.finalMessage();
+    yield {
+      type: "usage",
+      usage: {
+        inputTokens: finalMessage.usage.input_tokens,
+        outputTokens: finalMessage.usage.output_tokens,
+        cacheReadTokens: finalMessage.usage.cache_read_input_tokens ?? 0,
+        cacheWriteTokens: finalMessage.usage.cache_creation_input_tokens ?? 0,
+      },
+    };
     for (const block of finalMessage.content) {
-      if (block.type === "tool_use") {
+      // Complete thinking blocks carry the signature needed to replay them
+      if (block.type === "thinking") {
+        yield {
+          type: "thinking_block",
+          block: { type: "thinking", thinking: block.thinking, signature: block.signature },
+        };
+      } else if (block.type === "redacted_thinking") {
+        yield { type: "thinking_block", block: { type: "redacted_thinking", data: block.data } };
+      } else if (block.type === "tool_use") {
         yield {
           type: "tool_use",
           id: block.id,
@@ -88,23 +248,63 @@ class AnthropicClient implements LLMClient {
 
 // ---------- OpenAI Client ----------
 
+function openAIToolChoice(choice: ToolChoice): OpenAI.ChatCompletionToolChoiceOption {
+  if (typeof choice === "object") return { type: "function", function: { name: choice.name } };
+  return choice === "any" ? "required" : choice;
+}
+
+/** Convert a text, image or document block into an OpenAI content part. */
+function toOpenAIPart(
+  block: TextBlock | ImageBlock | DocumentBlock,
+): OpenAI.ChatCompletionContentPart {
+  if (block.type === "text") {
+    return { type: "text", text: block.text };
+  }
+  const dataUrl = `data:${block.source.media_type};base64,${block.source.data}`;
+  if (block.type === "image") {
+    return { type: "image_url", image_url: { url: dataUrl } };
+  }
+  return { type: "file", file: { filename: block.title ?? "document.pdf", file_data: dataUrl } };
+}
+
+/**
+ * Request-shape differences between OpenAI chat models. Reasoning models
+ * (o1, o3, o4 families) take max_completion_tokens and a developer message
+ * instead of max_tokens and a system message; the early o1-mini/o1-preview
+ * releases accept neither developer messages nor reasoning effort.
+ */
+function openAIModelCapabilities(model: string): {
+  reasoning: boolean;
+  systemRole: "system" | "developer" | "user";
+  reasoningEffort: boolean;
+} {
+  if (!/^o\d/.test(model)) {
+    return { reasoning: false, systemRole: "system", reasoningEffort: false };
+  }
+  if (/^o1-(mini|preview)/.test(model)) {
+    return { reasoning: true, systemRole: "user", reasoningEffort: false };
+  }
+  return { reasoning: true, systemRole: "developer", reasoningEffort: true };
+}
+
 class OpenAIClient implements LLMClient {
   private client: OpenAI;
 
-  constructor(apiKey?: string) {
-    this.client = new OpenAI({ apiKey });
+  constructor(options: { apiKey?: string; baseURL?: string; headers?: Record<string, string> }) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+      defaultHeaders: options.headers,
+      maxRetries: 0,
+    });
   }
 
-  async *stream(params: {
-    model: string;
-    system: string;
-    messages: Message[];
-    tools: Tool["definition"][];
-    max_tokens: number;
-  }): AsyncIterable<StreamEvent> {
+  async *stream(params: LLMStreamParams): AsyncIterable<StreamEvent> {
+    const caps = openAIModelCapabilities(params.model);
+
     // Translate messages from Anthropic format to OpenAI format
     const openaiMessages: OpenAI.ChatCompletionMessageParam[] = [
-      { role: "system", content: params.system },
+      { role: caps.systemRole, content: params.system },
     ];
 
     for (const msg of params.messages) {
@@ -113,7 +313,8 @@ class OpenAIClient implements LLMClient {
       } else if (msg.role === "assistant" && typeof msg.content === "string") {
         openaiMessages.push({ role: "assistant", content: msg.content });
       } else if (msg.role === "assistant" && Array.isArray(msg.content)) {
-        // Assistant message with tool_use blocks
+        // Assistant message with tool_use blocks. Thinking blocks are
+        // Anthropic-specific (signed for Claude only) and are dropped here.
         const textParts = msg.content
           .filter((b): b is Extract<ContentBlock, { type: "text" }> => b.type === "text")
           .map((b) => b.text)
@@ -126,22 +327,47 @@ class OpenAIClient implements LLMClient {
             function: { name: b.name, arguments: JSON.stringify(b.input) },
           }));
 
+        // Nothing left once thinking is dropped
+        if (!textParts && toolCalls.length === 0) continue;
+
         openaiMessages.push({
           role: "assistant",
           content: textParts || null,
           tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
         } as OpenAI.ChatCompletionMessageParam);
       } else if (msg.role === "user" && Array.isArray(msg.content)) {
-        // Tool results
+        // Tool results become tool messages. Everything else (text, images,
+        // documents, and images returned by tools, which tool messages cannot
+        // carry) follows as one user message.
+        const parts: OpenAI.ChatCompletionContentPart[] = [];
         for (const block of msg.content) {
           if (block.type === "tool_result") {
+            // OpenAI has no error flag, so failures must say so in the text
+            const text = describeToolResult(block.content);
             openaiMessages.push({
               role: "tool",
               tool_call_id: block.tool_use_id,
-              content: block.content,
+              content: block.is_error && !text.startsWith("Error") ? `Error: ${text}` : text,
             });
+            if (typeof block.content !== "string") {
+              for (const part of block.content) {
+                if (part.type === "image") parts.push(toOpenAIPart(part));
+              }
+            }
+          } else if (block.type === "text" || block.type === "image" || block.type === "document") {
+            parts.push(toOpenAIPart(block));
           }
         }
+        if (parts.length > 0) {
+          // Plain text stays a string for servers without content-part support
+          const textOnly = parts.every((p) => p.type === "text");
+          openaiMessages.push({
+            role: "user",
+            content: textOnly
+              ? parts.map((p) => (p as OpenAI.ChatCompletionContentPartText).text).join("\n\n")
+              : parts,
+          });
+        }
       }
     }
 
@@ -154,19 +380,48 @@ class OpenAIClient implements LLMClient {
       },
     }));
 
-    const stream = await this.client.chat.completions.create({
-      model: params.model,
-      messages: openaiMessages,
-      tools: openaiTools.length > 0 ? openaiTools : undefined,
-      max_tokens: params.max_tokens,
-      stream: true,
-    });
+    const stream = await this.client.chat.completions.create(
+      {
+        model: params.model,
+        messages: openaiMessages,
+        tools: openaiTools.length > 0 ? openaiTools : undefined,
+        tool_choice:
+          params.toolChoice && openaiTools.length > 0
+            ? openAIToolChoice(params.toolChoice)
+            : undefined,
+        // Reasoning models only accept the default sampling settings and no stop
+        temperature: caps.reasoning ? undefined : params.temperature,
+        top_p: caps.reasoning ? undefined : params.topP,
+        stop: caps.reasoning ? undefined : params.stopSequences,
+        ...(caps.reasoning
+          ? { max_completion_tokens: params.max_tokens }
+          : { max_tokens: params.max_tokens }),
+        reasoning_effort: caps.reasoningEffort ? params.reasoningEffort : undefined,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: params.signal },
+    );
 
     // Collect tool calls from streamed deltas
     const toolCalls = new Map<number, { id: string; name: string; args: string }>();
     let stopReason = "end_turn";
 
+    let usage: Usage | undefined;
+
     for await (const chunk of stream) {
+      // The usage chunk arrives last, with an empty choices array
+      if (chunk.usage) {
+        const cached = chunk.usage.prompt_tokens_details?.cached_tokens ?? 0;
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens - cached,
+          outputTokens: chunk.usage.completion_tokens,
+          cacheReadTokens: cached,
+          cacheWriteTokens: 0,
+          reasoningTokens: chunk.usage.completion_tokens_details?.reasoning_tokens,
+        };
+      }
+
       const delta = chunk.choices[0]?.delta;
       if (!delta) continue;
 
@@ -189,139 +444,467 @@ class OpenAIClient implements LLMClient {
       const finishReason = chunk.choices[0]?.finish_reason;
       if (finishReason === "tool_calls") stopReason = "tool_use";
       else if (finishReason === "stop") stopReason = "end_turn";
+      else if (finishReason === "length") stopReason = "max_tokens";
     }
 
-    // Emit collected tool calls
+    // Emit collected tool calls, repairing almost-JSON arguments
     for (const [, tc] of toolCalls) {
-      let input: Record<string, unknown> = {};
-      try {
-        input = JSON.parse(tc.args);
-      } catch {
-        // malformed args
+      const schema = params.tools.find((t) => t.name === tc.name)?.input_schema;
+      const parsed = parseToolArguments(tc.args, schema);
+      if (parsed.ok) {
+        if (parsed.repaired) {
+          console.warn(`Repaired malformed arguments for tool ${tc.name}: ${tc.args}`);
+        }
+        yield { type: "tool_use", id: tc.id, name: tc.name, input: parsed.value };
+      } else {
+        console.warn(`Unparseable arguments for tool ${tc.name} (${parsed.error}): ${tc.args}`);
+        yield { type: "tool_use", id: tc.id, name: tc.name, input: {}, inputError: parsed.error };
       }
-      yield { type: "tool_use", id: tc.id, name: tc.name, input };
     }
 
+    if (usage) yield { type: "usage", usage };
     yield { type: "message_stop", stop_reason: stopReason };
   }
 }
 
 // ---------- Factory ----------
 
-export function createLLMClient(config: SlimClawConfig): LLMClient {
-  if (config.provider === "openai") {
-    return new OpenAIClient(config.apiKey);
+function createProviderClient(settings: {
+  provider: Provider;
+  apiKey?: string;
+  baseURL?: string;
+  headers?: Record<string, string>;
+  mockScript?: string;
+}): LLMClient {
+  if (settings.provider === "mock") {
+    return new MockClient(settings.mockScript ? loadMockScript(settings.mockScript) : undefined);
   }
-  return new AnthropicClient(config.apiKey);
+  if (settings.provider === "openai-compatible") {
+    if (!settings.baseURL) {
+      throw new Error('Provider "openai-compatible" requires a baseURL');
+    }
+    // Local servers usually ignore the key, but the SDK refuses to start without one
+    return new OpenAIClient({
+      apiKey: settings.apiKey || "not-needed",
+      baseURL: settings.baseURL,
+      headers: settings.headers,
+    });
+  }
+  if (settings.provider === "openai") {
+    return new OpenAIClient({
+      apiKey: settings.apiKey,
+      baseURL: settings.baseURL,
+      headers: settings.headers,
+    });
+  }
+  return new AnthropicClient(settings.apiKey, settings.headers);
 }
 
-// ---------- System Prompt Assembly ----------
+export function createLLMClient(config: SlimClawConfig, cassette?: CassetteStore): LLMClient {
+  if (!config.cassette) return createRetryingClient(config);
+  const store = cassette ?? new CassetteStore(config.cassette);
+  // A replay builds the provider client only if a call misses the cassette,
+  // so captured sessions run in CI without API keys
+  if (config.cassette.mode === "replay") {
+    return new CassetteClient(() => createRetryingClient(config), store);
+  }
+  return new CassetteClient(createRetryingClient(config), store);
+}
 
-export function buildSystemPrompt(
-  config: SlimClawConfig,
-  skills: Skill[],
-  memoryContext: string,
-): string {
-  const parts: string[] = [];
+/** The provider client with retries and the fallback chain. */
+function createRetryingClient(config: SlimClawConfig): LLMClient {
+  const primary = createProviderClient(config);
 
-  // Base identity
-  parts.push("You are SlimClaw, a personal AI assistant.");
+  // Fallbacks reached the same way as the primary reuse its client
+  const fallbacks = config.fallbackModels.map((entry) => {
+    const fallback = configForFallback(config, entry);
+    const sameConnection =
+      fallback.provider === config.provider &&
+      fallback.apiKey === config.apiKey &&
+      fallback.baseURL === config.baseURL &&
+      fallback.headers === config.headers;
+    return {
+      model: fallback.model,
+      client: sameConnection ? primary : createProviderClient(fallback),
+    };
+  });
 
-  // Custom system prompt from config
-  if (config.systemPrompt) {
-    parts.push(config.systemPrompt);
-  }
+  return new RetryingClient(primary, fallbacks, config.retry);
+}
 
-  // Always-on skills (injected into system prompt)
-  for (const skill of skills.filter((s) => s.always)) {
-    parts.push(`## Skill: ${skill.name}\n${skill.content}`);
-  }
+/** A client together with the config (model, thinking, ...) to call it with. */
+export interface ModelRoute {
+  config: SlimClawConfig;
+  client: LLMClient;
+}
 
-  // Available skills list (progressive disclosure - names only)
-  const availableSkills = skills.filter((s) => !s.always);
-  if (availableSkills.length > 0) {
-    parts.push(
-      "## Available Skills\n" +
-        availableSkills.map((s) => `- ${s.name}: ${s.description}`).join("\n"),
-    );
-  }
+export type ModelRoutes = Record<ModelPurpose, ModelRoute>;
 
-  // Memory context
-  if (memoryContext) {
-    parts.push(`## Relevant Memories\n${memoryContext}`);
-  }
+/**
+ * Build a client for each purpose in `config.models`. Purposes without an
+ * entry share the client for the top-level model.
+ */
+export function createModelRoutes(config: SlimClawConfig): ModelRoutes {
+  // One cassette store, so every client records into the same file
+  const cassette = config.cassette ? new CassetteStore(config.cassette) : undefined;
+  const base: ModelRoute = { config, client: createLLMClient(config, cassette) };
+
+  const route = (purpose: ModelPurpose): ModelRoute => {
+    if (!config.models[purpose]) return base;
+    const purposeConfig = configForPurpose(config, purpose);
+    return { config: purposeConfig, client: createLLMClient(purposeConfig, cassette) };
+  };
+
+  return {
+    chat: route("chat"),
+    heartbeat: route("heartbeat"),
+    subagent: route("subagent"),
+    summarize: route("summarize"),
+  };
+}
+
+// ---------- System Prompt Assembly ----------
 
-  return parts.join("\n\n");
+/** Render the configured (or default) prompt template with this turn's context. */
+export function buildSystemPrompt(
+  config: SlimClawConfig,
+  skills: Skill[],
+  memoryContext: string,
+  tools: Tool[] = [],
+): string {
+  const variables = promptVariables({
+    model: config.model,
+    systemPrompt: config.systemPrompt,
+    skills,
+    tools,
+    memoryContext,
+    bootstrapFiles: loadBootstrapFiles(config.memoryDir, config.bootstrapMaxChars),
+  });
+  return renderTemplate(loadPromptTemplate(config.promptTemplate), variables);
 }
 
 // ---------- Tool Execution ----------
 
+/** Flatten a tool result to text, with placeholders for images. */
+export function describeToolResult(content: ToolResultContent): string {
+  if (typeof content === "string") return content;
+  return content
+    .map((part) =>
+      part.type === "text" ? part.text : `[image: ${part.source.media_type}]`,
+    )
+    .join("\n");
+}
+
 async function executeTool(
   name: string,
   input: Record<string, unknown>,
   tools: Tool[],
-): Promise<string> {
+  context: ToolContext,
+): Promise<ToolResult> {
   const tool = tools.find((t) => t.definition.name === name);
   if (!tool) {
-    return `Error: Unknown tool "${name}"`;
+    return toolError(`Unknown tool "${name}"`);
+  }
+  // Reject malformed input before the tool sees it; the model can retry
+  const validation = validateInput(tool.definition.input_schema, input);
+  if (!validation.valid) {
+    return toolError(
+      `Invalid input for tool "${name}":\n${validation.errors.map((e) => `- ${e}`).join("\n")}`,
+    );
   }
+
+  const startedAt = Date.now();
+  let result: ToolResult;
   try {
-    return await tool.execute(input);
+    result = toToolResult(await tool.execute(validation.value, context));
   } catch (err) {
-    return `Error executing tool "${name}": ${err instanceof Error ? err.message : String(err)}`;
+    result = {
+      content: `Error executing tool "${name}": ${err instanceof Error ? err.message : String(err)}`,
+      isError: true,
+    };
   }
+  return { ...result, metadata: { ...result.metadata, durationMs: Date.now() - startedAt } };
+}
+
+// ---------- Tool Batching ----------
+
+type ToolCall = {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  inputError?: string;
+};
+
+/**
+ * Split tool calls into batches of indexes. Consecutive calls to tools marked
+ * `concurrent` share a batch and run together; every other call runs alone,
+ * so side effects keep the order the model asked for.
+ */
+function planToolBatches(toolUses: ToolCall[], tools: Tool[]): number[][] {
+  const batches: Array<{ concurrent: boolean; indexes: number[] }> = [];
+  toolUses.forEach((toolUse, index) => {
+    const concurrent = tools.find((t) => t.definition.name === toolUse.name)?.concurrent === true;
+    const last = batches[batches.length - 1];
+    if (concurrent && last?.concurrent) {
+      last.indexes.push(index);
+    } else {
+      batches.push({ concurrent, indexes: [index] });
+    }
+  });
+  return batches.map((b) => b.indexes);
 }
 
 // ---------- Core Agent Turn ----------
 
+/** Marker recorded in the session when a turn is cancelled. */
+export const INTERRUPTED_MARKER = "[Interrupted by user]";
+
+/**
+ * Message sent to the model after a response is cut off at max_tokens. A tool
+ * call that was still being generated has incomplete arguments, so it is
+ * dropped and the model is asked to issue it again.
+ */
+function continuationNotice(discarded?: ToolCall): string {
+  let notice =
+    "[Output truncated: your response hit the max_tokens limit] " +
+    "Continue exactly where you left off, without repeating what you already wrote.";
+  if (discarded) {
+    notice +=
+      ` Your call to ${discarded.name} was cut off and was not executed; ` +
+      "issue it again, splitting large content across several smaller calls.";
+  }
+  return notice;
+}
+
+export interface AgentTurnOptions {
+  /** Cancels the turn: stops the LLM stream and any running tools. */
+  signal?: AbortSignal;
+  /** Model for the wrap-up call after a budget limit trips; defaults to the turn's model. */
+  summarize?: ModelRoute;
+  /** Asks the user to approve risky tool calls; without it the unattended policy applies. */
+  approve?: ApprovalHandler;
+}
+
+/**
+ * Close out a cancelled turn with an assistant message so the history stays
+ * valid (every tool_use answered, roles alternating) for the next turn.
+ */
+function recordInterruption(session: Session, partialText: string): void {
+  appendMessage(session, {
+    role: "assistant",
+    content: partialText ? `${partialText}\n\n${INTERRUPTED_MARKER}` : INTERRUPTED_MARKER,
+  });
+}
+
+/**
+ * Check a tool call against the permission rules and, when they say ask, get
+ * the user's (or the unattended policy's) decision. Every decision is logged
+ * to the session. Returns undefined when the call may run, otherwise the
+ * result to answer it with.
+ */
+async function* authorizeToolCall(
+  toolUse: ToolCall,
+  session: Session,
+  config: SlimClawConfig,
+  options: AgentTurnOptions,
+): AsyncGenerator<StreamEvent, ToolResult | undefined> {
+  const { id, name, input } = toolUse;
+  const check = checkPermission(
+    config.permissions,
+    config.approval,
+    name,
+    input,
+    config.workspace.root,
+  );
+  const log = (
+    decision: PermissionRecord["decision"],
+    source: PermissionRecord["source"],
+    reason?: string,
+  ) =>
+    appendPermission(session, {
+      toolUseId: id,
+      tool: name,
+      decision,
+      source,
+      ...(check.rule && { rule: describeRule(check.rule) }),
+      ...(reason && { reason }),
+    });
+
+  let refusal: ToolResult;
+  if (check.action === "allow") {
+    log("allow", check.rule ? "rule" : "default");
+    return undefined;
+  } else if (check.action === "deny") {
+    log("deny", "rule", check.rule?.reason);
+    refusal = toolError(permissionDeniedMessage(name, check.rule!));
+  } else if (grantedForSession(session, name)) {
+    log("allow", "session");
+    return undefined;
+  } else {
+    let decision: ApprovalDecision | undefined;
+    if (options.approve) {
+      // Register the request before announcing it, so the answer has somewhere to go
+      const pending = options.approve({ id, name, input });
+      yield { type: "tool_approval_request", id, name, input };
+      decision = await waitForDecision(pending, options.signal);
+    } else {
+      decision = unattendedDecision(config.approval);
+    }
+    // Cancelled while waiting: nothing was decided
+    if (!decision) return { content: INTERRUPTED_MARKER, isError: true };
+
+    const source = options.approve ? "user" : "unattended";
+    if (decision.type === "allow") {
+      if (decision.scope === "session") grantForSession(session, name);
+      log("allow", source);
+      return undefined;
+    }
+    log("deny", source, decision.reason);
+    refusal = toolError(denialMessage(name, decision.reason));
+  }
+
+  yield {
+    type: "tool_end",
+    id,
+    name,
+    result: describeToolResult(refusal.content),
+    isError: true,
+  };
+  return refusal;
+}
+
 export async function* agentTurn(
   session: Session,
-  userMessage: string,
+  userMessage: string | ContentBlock[],
   config: SlimClawConfig,
   client: LLMClient,
   tools: Tool[],
   skills: Skill[],
   memoryContext: string,
+  options: AgentTurnOptions = {},
 ): AsyncGenerator<StreamEvent> {
+  const { signal } = options;
+  const budget = new TurnBudget(config.limits);
+  // Set once a limit trips: one more LLM call to summarize, then stop
+  let finalRound = false;
+  let continuations = 0;
+  let firstCall = true;
+
   // 1. Append user message
   appendMessage(session, { role: "user", content: userMessage });
 
   // 2. Build system prompt
-  const systemPrompt = buildSystemPrompt(config, skills, memoryContext);
+  const systemPrompt = buildSystemPrompt(config, skills, memoryContext, tools);
 
   // 3. Agent loop - keep calling LLM until no more tool calls
   while (true) {
+    if (signal?.aborted) {
+      recordInterruption(session, "");
+      yield { type: "interrupted" };
+      return;
+    }
+
     // Collect the streamed response
     const contentBlocks: ContentBlock[] = [];
+    const thinkingBlocks: ThinkingBlock[] = [];
     let currentText = "";
-    const toolUses: Array<{ id: string; name: string; input: Record<string, unknown> }> = [];
+    const toolUses: ToolCall[] = [];
     let stopReason = "end_turn";
+    let outputTokens: number | undefined;
 
     // Apply context management (history limiting + tool result truncation)
     const contextMessages = prepareContext(session.messages, config);
 
-    const stream = client.stream({
-      model: config.model,
-      system: systemPrompt,
-      messages: contextMessages,
-      tools: tools.map((t) => t.definition),
-      max_tokens: config.maxTokens,
-    });
+    // The wrap-up call after a budget limit can go to a cheaper model
+    const route: ModelRoute =
+      finalRound && options.summarize ? options.summarize : { config, client };
+    // Session overrides win over the configured sampling settings
+    const sampling: SamplingOptions = { ...route.config.sampling, ...session.sampling };
+    // A forced tool choice applies to the first call only, or the model could
+    // never stop calling tools; the wrap-up call must not call any
+    const toolChoice = finalRound ? "none" : firstCall ? sampling.toolChoice : undefined;
+    firstCall = false;
 
-    for await (const event of stream) {
-      if (event.type === "text") {
-        currentText += event.text;
-        yield event;
-      } else if (event.type === "tool_use") {
-        toolUses.push(event);
-      } else if (event.type === "message_stop") {
-        stopReason = event.stop_reason;
+    budget.recordIteration();
+    try {
+      const stream = route.client.stream({
+        model: route.config.model,
+        system: systemPrompt,
+        messages: contextMessages,
+        tools: tools.map((t) => t.definition),
+        max_tokens: route.config.maxTokens,
+        thinking: route.config.thinking,
+        reasoningEffort: route.config.reasoningEffort,
+        temperature: sampling.temperature,
+        topP: sampling.topP,
+        stopSequences: sampling.stopSequences,
+        toolChoice,
+        cache: route.config.promptCaching,
+        signal,
+      });
+
+      for await (const event of stream) {
+        if (signal?.aborted) break;
+        if (event.type === "text" || event.type === "thinking") {
+          if (event.type === "text") currentText += event.text;
+          yield event;
+        } else if (event.type === "thinking_block") {
+          thinkingBlocks.push(event.block);
+        } else if (event.type === "tool_use") {
+          // The summary round must not start new work
+          if (!finalRound) toolUses.push(event);
+        } else if (event.type === "usage") {
+          // Fallbacks tag usage with the model that served the call
+          appendUsage(session, event.model ?? route.config.model, event.usage);
+          outputTokens = event.usage.outputTokens;
+          yield event;
+        } else if (event.type === "message_stop") {
+          stopReason = event.stop_reason;
+        }
       }
+    } catch (err) {
+      // Providers throw an abort error when the request is cancelled mid-stream
+      if (!signal?.aborted) throw err;
+    }
+
+    // Cancelled while streaming: keep the partial text, drop unfinished tool calls
+    if (signal?.aborted) {
+      recordInterruption(session, currentText);
+      yield { type: "interrupted" };
+      return;
     }
 
-    // Build content blocks for the assistant message
+    // Count reported output tokens, or estimate them from the streamed text
+    // and tool inputs when the provider sent no usage
+    if (outputTokens === undefined) {
+      const outputChars =
+        currentText.length + toolUses.reduce((n, tu) => n + JSON.stringify(tu.input).length, 0);
+      outputTokens = Math.ceil(outputChars / CHARS_PER_TOKEN);
+    }
+    budget.recordOutputTokens(outputTokens);
+
+    if (finalRound && !currentText) {
+      currentText = "[Turn budget exhausted]";
+    }
+
+    // A response cut off at max_tokens ends mid-way through its last block;
+    // if that was a tool call its arguments are incomplete, so drop it
+    const truncated = stopReason === "max_tokens";
+    const discarded = truncated ? toolUses.pop() : undefined;
+    const continuing = truncated && !finalRound && continuations < config.maxContinuations;
+
+    // Build content blocks for the assistant message. Thinking goes first so
+    // it can be replayed with its signature on the next tool-use round.
+    contentBlocks.push(...thinkingBlocks);
     if (currentText) {
       contentBlocks.push({ type: "text", text: currentText });
+    } else if (toolUses.length === 0) {
+      // Anthropic rejects assistant messages without content, which would
+      // break every later turn of the session; note what happened instead
+      contentBlocks.push({
+        type: "text",
+        text: discarded ? `[Response cut off while calling ${discarded.name}]` : "[No response]",
+      });
     }
     for (const tu of toolUses) {
       contentBlocks.push({
@@ -339,20 +922,102 @@ export async function* agentTurn(
         : contentBlocks;
     appendMessage(session, { role: "assistant", content: assistantContent });
 
-    // If no tool use, we're done
-    if (toolUses.length === 0) break;
-
-    // Execute each tool call
-    const toolResults: ContentBlock[] = [];
-    for (const toolUse of toolUses) {
-      yield { type: "tool_start", name: toolUse.name, input: toolUse.input };
-      const result = await executeTool(toolUse.name, toolUse.input, tools);
-      yield { type: "tool_end", name: toolUse.name, result };
-      toolResults.push({
-        type: "tool_result",
-        tool_use_id: toolUse.id,
-        content: result,
-      });
+    // If no tool use and nothing to continue, we're done
+    if (toolUses.length === 0 && !continuing) break;
+
+    // Execute tool calls batch by batch; once cancelled or out of budget,
+    // remaining calls are answered with a marker instead of being run
+    const results: ToolResult[] = [];
+    // Output reported by running tools, passed on while waiting for them
+    const progress: StreamEvent[] = [];
+    let wakeOnProgress: (() => void) | undefined;
+    for (const batch of planToolBatches(toolUses, tools)) {
+      const running = new Map<number, Promise<{ index: number; result: ToolResult }>>();
+      for (const index of batch) {
+        const toolUse = toolUses[index];
+        if (signal?.aborted) {
+          results[index] = { content: INTERRUPTED_MARKER, isError: true };
+          continue;
+        }
+        if (toolUse.inputError) {
+          results[index] = toolError(
+            `Could not parse the arguments for tool "${toolUse.name}" (${toolUse.inputError}). ` +
+              "Send the call again with valid JSON arguments.",
+          );
+          continue;
+        }
+        if (!budget.canCallTool()) {
+          results[index] = toolError("Skipped, the tool call budget for this turn is exhausted");
+          continue;
+        }
+        const refusal = yield* authorizeToolCall(toolUse, session, config, options);
+        if (refusal) {
+          results[index] = refusal;
+          continue;
+        }
+        budget.recordToolCall();
+        yield { type: "tool_start", id: toolUse.id, name: toolUse.name, input: toolUse.input };
+        const onProgress = (text: string) => {
+          progress.push({ type: "tool_progress", id: toolUse.id, name: toolUse.name, text });
+          wakeOnProgress?.();
+        };
+        running.set(
+          index,
+          executeTool(toolUse.name, toolUse.input, tools, {
+            signal,
+            onProgress,
+            sessionId: session.id,
+          }).then((result) => ({ index, result })),
+        );
+      }
+
+      // Report progress as it arrives and results in completion order; the
+      // UI matches them up by id
+      while (running.size > 0) {
+        const progressed = new Promise<undefined>((resolve) => {
+          wakeOnProgress = () => resolve(undefined);
+          if (progress.length > 0) resolve(undefined);
+        });
+        const finished = await Promise.race([...running.values(), progressed]);
+        wakeOnProgress = undefined;
+        yield* progress.splice(0);
+        if (!finished) continue;
+
+        const { index, result } = finished;
+        running.delete(index);
+        const toolUse = toolUses[index];
+        yield {
+          type: "tool_end",
+          id: toolUse.id,
+          name: toolUse.name,
+          result: describeToolResult(result.content),
+          isError: result.isError ?? false,
+          metadata: result.metadata,
+        };
+        results[index] = result;
+      }
+    }
+
+    // Tool results go back in the order the model asked for them
+    const toolResults: ContentBlock[] = toolUses.map((toolUse, index) => ({
+      type: "tool_result",
+      tool_use_id: toolUse.id,
+      content: results[index].content,
+      ...(results[index].isError && { is_error: true }),
+    }));
+
+    if (continuing) {
+      continuations++;
+      toolResults.push({ type: "text", text: continuationNotice(discarded) });
+      yield { type: "continuation", count: continuations };
+    }
+
+    // Out of budget: tell the model to wrap up and give it one last call
+    const limit = budget.exhausted();
+    if (limit && !signal?.aborted) {
+      finalRound = true;
+      toolResults.push({ type: "text", text: budgetExhaustedNotice(limit) });
+      yield { type: "budget_exhausted", limit };
     }
 
     // Append tool results and loop
@@ -0,0 +1,80 @@
+/**
+ * approval.ts — Human-in-the-loop approval of risky tool calls.
+ *
+ * Calls to the tools listed in `approval.tools`, or matched by an ask rule in
+ * `permissions`, wait for a decision before they run. In the web UI the agent
+ * loop asks the user (allow once, allow for the rest of the session, or deny
+ * with a reason). Runs with nobody to ask,
+ * such as heartbeats and sub-agents, apply the `unattended` policy instead.
+ */
+
+import type { Session } from "./session.js";
+
+export interface ApprovalConfig {
+  /** Tools whose calls need approval before they run. */
+  tools: string[];
+  /** What runs with nobody to ask (heartbeat, sub-agents) do with those calls. */
+  unattended: "allow" | "deny";
+}
+
+export interface ToolApprovalRequest {
+  /** The tool_use id, used to answer the request. */
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export type ApprovalDecision =
+  | { type: "allow"; scope: "once" | "session" }
+  | { type: "deny"; reason?: string };
+
+/** Asks a human about a tool call and resolves with their answer. */
+export type ApprovalHandler = (request: ToolApprovalRequest) => Promise<ApprovalDecision>;
+
+/** Whether the user already allowed this tool for the rest of the session. */
+export function grantedForSession(session: Session, name: string): boolean {
+  return session.approvedTools?.includes(name) ?? false;
+}
+
+/** Remember an "allow for session" answer for the rest of the session. */
+export function grantForSession(session: Session, name: string): void {
+  session.approvedTools = [...(session.approvedTools ?? []), name];
+}
+
+/** The decision for a run with nobody to ask. */
+export function unattendedDecision(config: ApprovalConfig): ApprovalDecision {
+  return config.unattended === "allow"
+    ? { type: "allow", scope: "once" }
+    : { type: "deny", reason: "approval is required and nobody is available to approve it" };
+}
+
+/** Wait for a decision; resolves undefined if the turn is cancelled first. */
+export function waitForDecision(
+  decision: Promise<ApprovalDecision>,
+  signal?: AbortSignal,
+): Promise<ApprovalDecision | undefined> {
+  if (!signal) return decision;
+  if (signal.aborted) return Promise.resolve(undefined);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => resolve(undefined);
+    signal.addEventListener("abort", onAbort, { once: true });
+    decision.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      },
+    );
+  });
+}
+
+/** The tool result the model sees for a denied call. */
+export function denialMessage(name: string, reason?: string): string {
+  return (
+    `The call to "${name}" was denied${reason ? `: ${reason}` : ""}. ` +
+    "Do not retry it; continue without it or ask the user how to proceed."
+  );
+}
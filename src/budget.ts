@@ -0,0 +1,77 @@
+/**
+ * budget.ts — Per-turn limits on the agent loop.
+ *
+ * Tracks LLM round-trips, tool calls, wall-clock time and output tokens for a
+ * single agentTurn so a confused model cannot loop on tool calls forever.
+ * A limit of 0 disables that check.
+ */
+
+export interface TurnLimits {
+  /** Max LLM round-trips per turn (the final summary call is not counted). */
+  maxIterations: number;
+  /** Max tool calls executed per turn. */
+  maxToolCalls: number;
+  /** Max wall-clock seconds per turn. */
+  maxTurnSeconds: number;
+  /** Max output tokens generated across all round-trips of a turn. */
+  maxOutputTokens: number;
+}
+
+export type BudgetLimit = "iterations" | "tool_calls" | "time" | "output_tokens";
+
+export class TurnBudget {
+  private limits: TurnLimits;
+  private startedAt = Date.now();
+  private iterations = 0;
+  private toolCalls = 0;
+  private outputTokens = 0;
+
+  constructor(limits: TurnLimits) {
+    this.limits = limits;
+  }
+
+  recordIteration(): void {
+    this.iterations++;
+  }
+
+  recordToolCall(): void {
+    this.toolCalls++;
+  }
+
+  recordOutputTokens(tokens: number): void {
+    this.outputTokens += tokens;
+  }
+
+  /** Whether another tool call fits in the budget. */
+  canCallTool(): boolean {
+    return !this.reached(this.toolCalls, this.limits.maxToolCalls) && this.exhausted() !== "time";
+  }
+
+  /** Return the first limit that has been reached, or null if there is room left. */
+  exhausted(): BudgetLimit | null {
+    if (this.reached(this.iterations, this.limits.maxIterations)) return "iterations";
+    if (this.reached(this.toolCalls, this.limits.maxToolCalls)) return "tool_calls";
+    if (this.reached((Date.now() - this.startedAt) / 1000, this.limits.maxTurnSeconds)) return "time";
+    if (this.reached(this.outputTokens, this.limits.maxOutputTokens)) return "output_tokens";
+    return null;
+  }
+
+  private reached(value: number, limit: number): boolean {
+    return limit > 0 && value >= limit;
+  }
+}
+
+const LIMIT_DESCRIPTIONS: Record<BudgetLimit, string> = {
+  iterations: "maximum LLM round-trips",
+  tool_calls: "maximum tool calls",
+  time: "maximum turn duration",
+  output_tokens: "maximum output tokens",
+};
+
+/** Message sent to the model when a limit trips, asking it to wrap up. */
+export function budgetExhaustedNotice(limit: BudgetLimit): string {
+  return (
+    `[Budget exhausted: ${LIMIT_DESCRIPTIONS[limit]} reached for this turn] ` +
+    "Do not call any more tools. Summarize what you have done so far and what remains."
+  );
+}
@@ -0,0 +1,134 @@
+/**
+ * cassette.ts — Record and replay LLM traffic.
+ *
+ * CassetteClient wraps any LLMClient. In "record" mode every stream() call is
+ * passed through and its request and emitted events are saved to a JSON
+ * cassette file. In "replay" mode calls are answered from the cassette by
+ * hashing the request, so a captured session can run again in CI with no
+ * network. A request the cassette lacks fails in strict mode; otherwise it
+ * goes to the wrapped client and is added to the cassette.
+ */
+
+import { createHash } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import type { LLMClient, LLMStreamParams, StreamEvent } from "./agent.js";
+
+export interface CassetteOptions {
+  /** Path of the cassette JSON file. */
+  path: string;
+  mode: "record" | "replay";
+  /** In replay mode, fail on requests missing from the cassette. */
+  strict?: boolean;
+}
+
+interface Interaction {
+  key: string;
+  request: Omit<LLMStreamParams, "signal">;
+  events: StreamEvent[];
+}
+
+interface Cassette {
+  version: 1;
+  interactions: Interaction[];
+}
+
+/** JSON with object keys sorted, so equal requests always hash the same. */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) =>
+    v && typeof v === "object" && !Array.isArray(v)
+      ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a.localeCompare(b)))
+      : v,
+  );
+}
+
+/** Strip the parts of a request that do not affect the response. */
+function recordable(params: LLMStreamParams): Omit<LLMStreamParams, "signal"> {
+  const { signal: _signal, ...request } = params;
+  return request;
+}
+
+export function requestKey(params: LLMStreamParams): string {
+  return createHash("sha256").update(stableStringify(recordable(params))).digest("hex");
+}
+
+/**
+ * The recorded interactions of one cassette file. Clients for different
+ * models share a store so they all record into the same file.
+ */
+export class CassetteStore {
+  readonly options: CassetteOptions;
+  private cassette: Cassette;
+  /** Replay position per request key, so repeated requests play back in order. */
+  private played = new Map<string, number>();
+
+  constructor(options: CassetteOptions) {
+    this.options = options;
+    this.cassette =
+      options.mode === "replay" && existsSync(options.path)
+        ? (JSON.parse(readFileSync(options.path, "utf-8")) as Cassette)
+        : { version: 1, interactions: [] };
+  }
+
+  /** The next unplayed recording for a request key. */
+  next(key: string): Interaction | undefined {
+    const matches = this.cassette.interactions.filter((i) => i.key === key);
+    const index = this.played.get(key) ?? 0;
+    if (index >= matches.length) return undefined;
+    this.played.set(key, index + 1);
+    return matches[index];
+  }
+
+  add(interaction: Interaction): void {
+    this.cassette.interactions.push(interaction);
+    this.played.set(interaction.key, (this.played.get(interaction.key) ?? 0) + 1);
+    writeFileSync(this.options.path, JSON.stringify(this.cassette, null, 2));
+  }
+}
+
+export class CassetteClient implements LLMClient {
+  private inner: LLMClient | (() => LLMClient);
+  private store: CassetteStore;
+
+  /**
+   * `inner` may be a factory, called on the first request the cassette
+   * cannot answer, so a replay needs no provider client (or API key).
+   */
+  constructor(inner: LLMClient | (() => LLMClient), store: CassetteStore) {
+    this.inner = inner;
+    this.store = store;
+  }
+
+  private client(): LLMClient {
+    if (typeof this.inner === "function") this.inner = this.inner();
+    return this.inner;
+  }
+
+  async *stream(params: LLMStreamParams): AsyncIterable<StreamEvent> {
+    const key = requestKey(params);
+    const { mode, strict, path } = this.store.options;
+
+    if (mode === "replay") {
+      const recorded = this.store.next(key);
+      if (recorded) {
+        for (const event of recorded.events) {
+          if (params.signal?.aborted) return;
+          yield event;
+        }
+        return;
+      }
+      if (strict) {
+        throw new Error(`Cassette ${path} has no recording for request ${key.slice(0, 12)}`);
+      }
+    }
+
+    // Pass through and save the call once it completes; failed or
+    // cancelled calls are not recorded
+    const events: StreamEvent[] = [];
+    for await (const event of this.client().stream(params)) {
+      events.push(event);
+      yield event;
+    }
+    if (params.signal?.aborted) return;
+    this.store.add({ key, request: recordable(params), events });
+  }
+}
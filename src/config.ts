@@ -1,12 +1,94 @@
 import { readFileSync, existsSync } from "fs";
 import { resolve } from "path";
+import type { TurnLimits } from "./budget.js";
+import { DEFAULT_PRICING } from "./usage.js";
+import type { PriceTable } from "./usage.js";
+import type { RetryOptions } from "./retry.js";
+import type { CassetteOptions } from "./cassette.js";
+import type { ApprovalConfig } from "./approval.js";
+import type { PermissionsConfig } from "./permissions.js";
+import type { WorkspaceConfig } from "./workspace.js";
+import type { ShellConfig } from "./shell.js";
+import { validatePermissions } from "./permissions.js";
+
+export type Provider = "anthropic" | "openai" | "openai-compatible" | "mock";
+
+export type ReasoningEffort = "low" | "medium" | "high";
+
+/** "any" forces some tool call; `{ name }` forces that tool. */
+export type ToolChoice = "auto" | "none" | "any" | { name: string };
+
+/** Sampling settings, set globally and overridable per session or sub-agent. */
+export interface SamplingOptions {
+  temperature?: number;
+  topP?: number;
+  stopSequences?: string[];
+  /** Applies to the first LLM call of a turn; later calls use "auto". */
+  toolChoice?: ToolChoice;
+}
+
+/** What an LLM call is for; each purpose can run on its own model. */
+export type ModelPurpose = "chat" | "heartbeat" | "subagent" | "summarize";
+
+/**
+ * Model for one purpose. Connection settings are inherited from the top-level
+ * config when the provider matches; other settings override when given.
+ */
+export type ModelSettings = Pick<SlimClawConfig, "model"> &
+  Partial<
+    Pick<
+      SlimClawConfig,
+      | "provider"
+      | "apiKey"
+      | "baseURL"
+      | "headers"
+      | "maxTokens"
+      | "thinking"
+      | "reasoningEffort"
+      | "sampling"
+    >
+  >;
+
+/** A fallback model and where to reach it. */
+export type FallbackModel = Pick<
+  ModelSettings,
+  "model" | "provider" | "apiKey" | "baseURL" | "headers"
+>;
 
 export interface SlimClawConfig {
   // LLM
-  provider: "anthropic" | "openai";
+  provider: Provider;
   model: string;
   apiKey?: string;
   maxTokens: number;
+  /** Base URL for "openai-compatible" servers (llama.cpp, vLLM, Ollama, LM Studio). */
+  baseURL?: string;
+  /** Extra HTTP headers sent with every LLM request. */
+  headers?: Record<string, string>;
+  /** JSON or YAML script of canned responses for the "mock" provider. */
+  mockScript?: string;
+  /** Extended thinking budget (Anthropic). Omit to disable thinking. */
+  thinking?: { budgetTokens: number };
+  /** Reasoning effort for OpenAI o-series models. Omit to use the model default. */
+  reasoningEffort?: ReasoningEffort;
+  /** Temperature, top_p, stop sequences and tool choice for LLM calls. */
+  sampling: SamplingOptions;
+  /** Mark the system prompt, tools and history as cacheable (Anthropic). */
+  promptCaching: boolean;
+  /** USD per million tokens, keyed by model name prefix. */
+  pricing: PriceTable;
+  /** Backoff for transient LLM errors (429, 529, 5xx, network). */
+  retry: RetryOptions;
+  /**
+   * Models tried in order when the primary model keeps failing: a name (on
+   * the primary's server when that is "openai-compatible", else the provider
+   * is inferred from the name) or the model with its own connection settings.
+   */
+  fallbackModels: (string | FallbackModel)[];
+  /** Per-purpose models; purposes not listed use the top-level model. */
+  models: Partial<Record<ModelPurpose, ModelSettings>>;
+  /** Record LLM calls to, or replay them from, a cassette file. */
+  cassette?: CassetteOptions;
 
   // Server
   port: number;
@@ -14,8 +96,21 @@ export interface SlimClawConfig {
 
   // Agent
   systemPrompt?: string;
+  /** Path of a system prompt template with {{variables}}; omit for the built-in layout. */
+  promptTemplate?: string;
   maxHistoryTurns: number;
   maxToolResultChars: number;
+  /** Times a turn resumes a response cut off at maxTokens (0 disables). */
+  maxContinuations: number;
+  limits: TurnLimits;
+  /** Tools that wait for the user's approval, and the policy for unattended runs. */
+  approval: ApprovalConfig;
+  /** Allow / ask / deny rules checked before every tool call. */
+  permissions: PermissionsConfig;
+  /** Directories the file tools may use; everything else is off limits. */
+  workspace: WorkspaceConfig;
+  /** Persistent per-session shell for bash. */
+  shell: ShellConfig;
 
   // Skills
   skillsDir: string;
@@ -36,6 +131,8 @@ export interface SlimClawConfig {
   // Memory
   memoryDir: string;
   memoryFile: string;
+  /** Per-file character cap for SOUL.md, USER.md, AGENTS.md and TOOLS.md (0 = no cap). */
+  bootstrapMaxChars: number;
 
   // Heartbeat
   heartbeat: {
@@ -49,22 +146,48 @@ const DEFAULTS: SlimClawConfig = {
   provider: "anthropic",
   model: "claude-sonnet-4-20250514",
   maxTokens: 4096,
+  sampling: {},
+  promptCaching: true,
+  pricing: DEFAULT_PRICING,
+  retry: {
+    maxRetries: 3,
+    initialDelayMs: 1000,
+    maxDelayMs: 30_000,
+  },
+  fallbackModels: [],
+  models: {},
   port: 3000,
   host: "127.0.0.1",
   maxHistoryTurns: 50,
   maxToolResultChars: 100_000,
+  maxContinuations: 3,
+  limits: {
+    maxIterations: 25,
+    maxToolCalls: 100,
+    maxTurnSeconds: 600,
+    maxOutputTokens: 0,
+  },
+  approval: {
+    tools: ["bash", "write_file", "edit_file"],
+    unattended: "deny",
+  },
+  permissions: { allow: [], ask: [], deny: [] },
+  workspace: { root: ".", readRoots: [] },
+  shell: { persistent: true, idleMinutes: 30 },
   skillsDir: "./skills",
   mcp: { servers: {} },
   memoryDir: "./memory",
   memoryFile: "MEMORY.md",
+  bootstrapMaxChars: 20_000,
   heartbeat: {
     enabled: false,
     intervalMinutes: 30,
   },
 };
 
-/** Infer provider from model name. */
-function detectProvider(model: string): "anthropic" | "openai" {
+/** Infer provider from model name (or a custom base URL). */
+export function detectProvider(model: string, baseURL?: string): Provider {
+  if (baseURL) return "openai-compatible";
   if (model.startsWith("claude")) return "anthropic";
   if (
     model.startsWith("gpt") ||
@@ -77,14 +200,54 @@ function detectProvider(model: string): "anthropic" | "openai" {
   return "anthropic";
 }
 
-/** Resolve API key from config or environment variable. */
-function resolveApiKey(
-  provider: "anthropic" | "openai",
+/**
+ * Resolve API key from config or environment variable. The environment keys
+ * belong to Anthropic and OpenAI, so they are never sent to the third-party
+ * host of an "openai-compatible" provider.
+ */
+export function resolveApiKey(
+  provider: Provider,
   configKey?: string,
 ): string | undefined {
   if (configKey) return configKey;
   if (provider === "anthropic") return process.env.ANTHROPIC_API_KEY;
-  return process.env.OPENAI_API_KEY;
+  if (provider === "openai") return process.env.OPENAI_API_KEY;
+  return undefined;
+}
+
+/** The config to run an LLM call for the given purpose with. */
+export function configForPurpose(config: SlimClawConfig, purpose: ModelPurpose): SlimClawConfig {
+  const settings = config.models[purpose];
+  return settings ? withModel(config, settings) : config;
+}
+
+/** The config to call a fallback model with. */
+export function configForFallback(
+  config: SlimClawConfig,
+  fallback: string | FallbackModel,
+): SlimClawConfig {
+  if (typeof fallback !== "string") return withModel(config, fallback);
+  // A bare name on a custom server is another model on that server
+  return config.provider === "openai-compatible"
+    ? { ...config, model: fallback }
+    : withModel(config, { model: fallback });
+}
+
+/**
+ * Switch the config to another model. Connection settings carry over when
+ * the provider stays the same; another provider gets its own key.
+ */
+function withModel(config: SlimClawConfig, settings: ModelSettings): SlimClawConfig {
+  const provider = settings.provider ?? detectProvider(settings.model, settings.baseURL);
+  const sameProvider = provider === config.provider;
+  return {
+    ...config,
+    ...settings,
+    provider,
+    apiKey: settings.apiKey ?? (sameProvider ? config.apiKey : resolveApiKey(provider)),
+    baseURL: settings.baseURL ?? (sameProvider ? config.baseURL : undefined),
+    headers: settings.headers ?? (sameProvider ? config.headers : undefined),
+  };
 }
 
 /**
@@ -104,6 +267,38 @@ export function loadConfig(configPath?: string): SlimClawConfig {
   const merged: SlimClawConfig = {
     ...DEFAULTS,
     ...fileConfig,
+    pricing: {
+      ...DEFAULTS.pricing,
+      ...fileConfig.pricing,
+    },
+    retry: {
+      ...DEFAULTS.retry,
+      ...fileConfig.retry,
+    },
+    sampling: {
+      ...DEFAULTS.sampling,
+      ...fileConfig.sampling,
+    },
+    limits: {
+      ...DEFAULTS.limits,
+      ...fileConfig.limits,
+    },
+    approval: {
+      ...DEFAULTS.approval,
+      ...fileConfig.approval,
+    },
+    permissions: {
+      ...DEFAULTS.permissions,
+      ...fileConfig.permissions,
+    },
+    workspace: {
+      ...DEFAULTS.workspace,
+      ...fileConfig.workspace,
+    },
+    shell: {
+      ...DEFAULTS.shell,
+      ...fileConfig.shell,
+    },
     mcp: {
       ...DEFAULTS.mcp,
       ...fileConfig.mcp,
@@ -114,9 +309,11 @@ export function loadConfig(configPath?: string): SlimClawConfig {
     },
   };
 
+  validatePermissions(merged.permissions);
+
   // Auto-detect provider from model name if not explicitly set
   if (!fileConfig.provider) {
-    merged.provider = detectProvider(merged.model);
+    merged.provider = detectProvider(merged.model, merged.baseURL);
   }
 
   // Resolve API key from env if not in config
@@ -10,10 +10,11 @@ import { loadConfig } from "./config.js";
 import { initDatabase } from "./db.js";
 import { MemoryStore, createMemoryTools } from "./memory.js";
 import { createBuiltinTools } from "./tools.js";
+import { ShellManager } from "./shell.js";
 import type { Tool } from "./tools.js";
 import { loadSkills, watchSkills, skillTools } from "./skills.js";
 import { startAllMCPServers, stopAllMCPServers } from "./mcp.js";
-import { createLLMClient } from "./agent.js";
+import { createModelRoutes } from "./agent.js";
 import { createSubAgentTool } from "./subagent.js";
 import { Heartbeat } from "./heartbeat.js";
 import { startServer } from "./server.js";
@@ -34,11 +35,15 @@ async function main() {
   memory.reindex();
   memory.startWatching();
 
-  // 5. Create LLM client
-  const client = createLLMClient(config);
+  // 5. Create LLM clients (one per configured model purpose)
+  const models = createModelRoutes(config);
 
-  // 6. Load built-in tools
-  const builtinTools = createBuiltinTools(config);
+  // 6. Load built-in tools (persistent shells need a POSIX sh)
+  const shells =
+    config.shell.persistent && process.platform !== "win32"
+      ? new ShellManager(config.shell.idleMinutes * 60_000)
+      : undefined;
+  const builtinTools = createBuiltinTools({ ...config, shells });
 
   // 7. Load skills
   let skills = loadSkills(config.skillsDir);
@@ -52,7 +57,7 @@ async function main() {
     ...builtinTools,
     ...mcpTools,
     ...createMemoryTools(memory),
-    createSubAgentTool(config, client, builtinTools),
+    createSubAgentTool(models.subagent.config, models.subagent.client, builtinTools),
   ];
   const allTools: Tool[] = [...staticTools, ...skillTools(skills)];
 
@@ -70,7 +75,7 @@ async function main() {
   // 12. Start server
   const server = startServer({
     config,
-    client,
+    models,
     tools: allTools,
     skills,
     memory,
@@ -80,6 +85,7 @@ async function main() {
   // 13. Graceful shutdown
   const shutdown = async () => {
     heartbeat.stop();
+    shells?.closeAll();
     await stopAllMCPServers(mcpServers);
     memory.stopWatching();
     await skillWatcher.close();
@@ -13,7 +13,7 @@ import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
 import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
 import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
-import type { Tool } from "./tools.js";
+import type { Tool, ToolContext, ToolResult } from "./tools.js";
 import type { SlimClawConfig } from "./config.js";
 
 /** A running MCP server with its discovered tools. */
@@ -69,23 +69,38 @@ function normalizeSchema(schema: unknown): Record<string, unknown> {
 }
 
 /** Convert discovered MCP tools into SlimClaw Tool format. */
-function convertTools(name: string, client: Client, mcpTools: Array<{ name: string; description?: string; inputSchema: unknown }>): Tool[] {
+function convertTools(
+  name: string,
+  client: Client,
+  mcpTools: Array<{
+    name: string;
+    description?: string;
+    inputSchema: unknown;
+    annotations?: { readOnlyHint?: boolean };
+  }>,
+): Tool[] {
   return mcpTools.map((mcpTool) => ({
     definition: {
       name: `mcp_${name}_${mcpTool.name}`,
       description: `[MCP:${name}] ${mcpTool.description ?? ""}`,
       input_schema: normalizeSchema(mcpTool.inputSchema),
     },
-    execute: async (input: Record<string, unknown>): Promise<string> => {
-      const result = await client.callTool({
-        name: mcpTool.name,
-        arguments: input,
-      });
+    // Servers flag side-effect-free tools with readOnlyHint
+    concurrent: mcpTool.annotations?.readOnlyHint === true,
+    execute: async (
+      input: Record<string, unknown>,
+      context?: ToolContext,
+    ): Promise<string | ToolResult> => {
+      const params = { name: mcpTool.name, arguments: input };
+      const result = context?.signal
+        ? await client.callTool(params, undefined, { signal: context.signal })
+        : await client.callTool(params);
       // Flatten content array to text
       const content = result.content as Array<{ type: string; text?: string }>;
-      return content
+      const text = content
         .map((c) => c.text ?? JSON.stringify(c))
         .join("\n");
+      return result.isError ? { content: text, isError: true } : text;
     },
   }));
 }
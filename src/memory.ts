@@ -18,6 +18,8 @@ import {
 } from "fs";
 import { join, relative, dirname, sep } from "path";
 import type { Tool } from "./tools.js";
+import { toolError } from "./tools.js";
+import { resolveWithin } from "./workspace.js";
 
 export interface MemoryResult {
   path: string;
@@ -138,10 +140,13 @@ export class MemoryStore {
     }
   }
 
-  /** Save content to a memory file. Appends to existing file. */
+  /**
+   * Save content to a memory file. Appends to existing file. Throws if the
+   * path leads outside the memory directory.
+   */
   save(content: string, path?: string): void {
     const target = path || `${new Date().toISOString().split("T")[0]}.md`;
-    const fullPath = join(this.memoryDir, target);
+    const fullPath = resolveWithin(target, [this.memoryDir], this.memoryDir);
     mkdirSync(dirname(fullPath), { recursive: true });
     appendFileSync(fullPath, `\n${content}\n`, "utf-8");
     this.reindex();
@@ -223,6 +228,7 @@ export function createMemoryTools(store: MemoryStore): Tool[] {
           required: ["query"],
         },
       },
+      concurrent: true,
       async execute(input: Record<string, unknown>): Promise<string> {
         const query = input.query as string;
         const limit = (input.limit as number) ?? 10;
@@ -261,10 +267,14 @@ export function createMemoryTools(store: MemoryStore): Tool[] {
           required: ["content"],
         },
       },
-      async execute(input: Record<string, unknown>): Promise<string> {
+      async execute(input: Record<string, unknown>) {
         const content = input.content as string;
         const path = input.path as string | undefined;
-        store.save(content, path);
+        try {
+          store.save(content, path);
+        } catch (err) {
+          return toolError((err as Error).message);
+        }
         return `Memory saved${path ? ` to ${path}` : " to daily log"}.`;
       },
     },
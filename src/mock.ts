@@ -0,0 +1,125 @@
+/**
+ * mock.ts — Scripted LLM provider for offline development and tests.
+ *
+ * With `provider: "mock"` the agent talks to MockClient instead of a real API.
+ * It plays back responses from a JSON or YAML script: each rule matches the
+ * latest user prompt by regex and lists the responses for the round-trips of
+ * that turn, so a tool call can be followed by a final answer.
+ *
+ *   rules:
+ *     - match: "list files"
+ *       responses:
+ *         - toolCalls: [{ name: bash, input: { command: ls } }]
+ *         - text: "Those are your files."
+ *     - text: "I am a mock."        # no match: used for any prompt
+ */
+
+import { readFileSync } from "fs";
+import { extname } from "path";
+import matter from "gray-matter";
+import type { LLMClient, LLMStreamParams, StreamEvent } from "./agent.js";
+import type { Message } from "./session.js";
+
+export interface MockResponse {
+  text?: string;
+  toolCalls?: Array<{ name: string; input?: Record<string, unknown> }>;
+  /** Defaults to "tool_use" when there are tool calls, else "end_turn". */
+  stopReason?: string;
+}
+
+export interface MockRule extends MockResponse {
+  /** Case-insensitive regex tested against the user prompt; omit to match anything. */
+  match?: string;
+  /** One response per round-trip; the last repeats. Defaults to the rule itself. */
+  responses?: MockResponse[];
+}
+
+export interface MockScript {
+  rules: MockRule[];
+}
+
+/** Used when no script is configured: echo the prompt back. */
+const ECHO_SCRIPT: MockScript = { rules: [] };
+
+/** Parse a mock script; YAML is read through gray-matter's front-matter parser. */
+export function parseMockScript(raw: string, format: "json" | "yaml"): MockScript {
+  const data: unknown =
+    format === "yaml" ? matter(`---\n${raw}\n---\n`).data : JSON.parse(raw);
+  const rules = (data as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Mock script must have a "rules" array');
+  }
+  return { rules: rules as MockRule[] };
+}
+
+export function loadMockScript(path: string): MockScript {
+  const ext = extname(path).toLowerCase();
+  const format = ext === ".yaml" || ext === ".yml" ? "yaml" : "json";
+  try {
+    return parseMockScript(readFileSync(path, "utf-8"), format);
+  } catch (err) {
+    throw new Error(
+      `Failed to load mock script ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+}
+
+/**
+ * Find the prompt of the current turn (the newest user message that is not a
+ * batch of tool results) and how many round-trips have happened since.
+ */
+function currentPrompt(messages: Message[]): { prompt: string; round: number } {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.role !== "user") continue;
+    if (typeof msg.content !== "string" && msg.content.some((b) => b.type === "tool_result")) {
+      continue;
+    }
+    const prompt =
+      typeof msg.content === "string"
+        ? msg.content
+        : msg.content
+            .map((b) => (b.type === "text" ? b.text : ""))
+            .filter(Boolean)
+            .join("\n");
+    const round = messages.slice(i + 1).filter((m) => m.role === "assistant").length;
+    return { prompt, round };
+  }
+  return { prompt: "", round: 0 };
+}
+
+export class MockClient implements LLMClient {
+  private script: MockScript;
+  private toolCallCount = 0;
+
+  constructor(script: MockScript = ECHO_SCRIPT) {
+    this.script = script;
+  }
+
+  async *stream(params: LLMStreamParams): AsyncIterable<StreamEvent> {
+    const { prompt, round } = currentPrompt(params.messages);
+    const rule = this.script.rules.find(
+      (r) => r.match === undefined || new RegExp(r.match, "i").test(prompt),
+    );
+    const responses = rule ? (rule.responses ?? [rule]) : [{ text: `Mock response to: ${prompt}` }];
+    const response = responses[Math.min(round, responses.length - 1)];
+
+    // Stream word by word so the UI sees incremental chunks
+    for (const chunk of response.text?.match(/\S+\s*|\s+/g) ?? []) {
+      if (params.signal?.aborted) return;
+      yield { type: "text", text: chunk };
+    }
+    for (const call of response.toolCalls ?? []) {
+      yield {
+        type: "tool_use",
+        id: `mock_tool_${++this.toolCallCount}`,
+        name: call.name,
+        input: call.input ?? {},
+      };
+    }
+    yield {
+      type: "message_stop",
+      stop_reason: response.stopReason ?? (response.toolCalls?.length ? "tool_use" : "end_turn"),
+    };
+  }
+}
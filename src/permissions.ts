@@ -0,0 +1,234 @@
+/**
+ * permissions.ts — Declarative allow / ask / deny rules for tool calls.
+ *
+ * Rules come from the `permissions` section of slimclaw.json. A rule matches
+ * a tool name glob (`bash`, `mcp_github_*`) and optionally a bash command
+ * prefix or regex, or a path glob for the file tools. Deny rules win over ask
+ * rules, which win over allow rules. A call no rule matches is asked about
+ * when its tool is listed in `approval.tools`, and allowed otherwise.
+ */
+
+import { resolve, sep } from "path";
+import type { ApprovalConfig } from "./approval.js";
+import { realResolve } from "./workspace.js";
+
+export type PermissionAction = "allow" | "ask" | "deny";
+
+export interface PermissionRule {
+  /** Tool name glob, e.g. "bash" or "mcp_github_*". Defaults to every tool. */
+  tool?: string;
+  /** bash only: the command (or, for ask and deny, any part of it) starts with this. */
+  command?: string;
+  /** bash only: regular expression tested against the whole command. */
+  commandPattern?: string;
+  /** File tools only: glob for the path, relative to the workspace root. */
+  path?: string;
+  /** Explanation shown to the model when the rule denies a call. */
+  reason?: string;
+}
+
+export interface PermissionsConfig {
+  allow: PermissionRule[];
+  ask: PermissionRule[];
+  deny: PermissionRule[];
+}
+
+export interface PermissionCheck {
+  action: PermissionAction;
+  /** The rule that decided; absent when the default applied. */
+  rule?: PermissionRule;
+}
+
+/** Tools whose `path` input path rules apply to. */
+const FILE_TOOLS = new Set(["read_file", "write_file", "edit_file"]);
+
+/**
+ * Convert a glob to a regular expression: `**` matches across directories,
+ * `*` within one path segment and `?` a single character.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === "*" && glob[i + 1] === "*") {
+      // "**/" also matches no directories at all
+      if (glob[i + 2] === "/") {
+        pattern += "(?:.*/)?";
+        i += 2;
+      } else {
+        pattern += ".*";
+        i += 1;
+      }
+    } else if (ch === "*") {
+      pattern += "[^/]*";
+    } else if (ch === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/** Characters that end a word in a shell command. */
+const WORD_END = /[\s;&|()<>{}`]/;
+
+/**
+ * Characters that let a command run, chain or redirect to something beyond
+ * its first word: control operators, redirections, subshells, groups and
+ * substitutions, and line breaks.
+ */
+const UNSAFE_FOR_ALLOW = /[;&|<>(){}`\r\n]/;
+
+/**
+ * Split a shell command at control operators (`;`, `&`, `&&`, `||`, `|`,
+ * line breaks). Returns undefined when the command uses subshells, groups or
+ * substitution (`(...)`, `{...}`, `$(...)`, backticks), whose parts cannot be
+ * told apart without a real shell parser.
+ */
+function commandSegments(command: string): string[] | undefined {
+  if (/[(){}`]/.test(command)) return undefined;
+  return command
+    .split(/&&|\|\||[;&|\r\n]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+function startsWithWord(text: string, prefix: string): boolean {
+  if (!text.startsWith(prefix)) return false;
+  return (
+    text.length === prefix.length || /\s$/.test(prefix) || WORD_END.test(text[prefix.length])
+  );
+}
+
+/** Whether the prefix appears anywhere in the command at the start of a word. */
+function containsWord(command: string, prefix: string): boolean {
+  for (let i = command.indexOf(prefix); i !== -1; i = command.indexOf(prefix, i + 1)) {
+    const atWordStart = i === 0 || WORD_END.test(command[i - 1]);
+    if (atWordStart && startsWithWord(command.slice(i), prefix)) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether a command prefix rule matches. Allow rules are strict: a command
+ * that chains, redirects or substitutes anything never matches, so an allowed
+ * `git status` cannot smuggle in `; rm -rf ~` or `> ~/.bashrc`. Ask and deny
+ * rules match when any part of the command starts with the prefix, or, when
+ * the command cannot be split cleanly, when any word in it does.
+ */
+function matchesCommandPrefix(command: string, prefix: string, action: PermissionAction): boolean {
+  if (action === "allow") {
+    return !UNSAFE_FOR_ALLOW.test(command) && startsWithWord(command.trim(), prefix);
+  }
+  const segments = commandSegments(command);
+  if (!segments) return containsWord(command, prefix);
+  return segments.some((part) => startsWithWord(part, prefix));
+}
+
+/** The real path, or the plain absolute one when it cannot be resolved. */
+function realPath(path: string, root: string): string {
+  try {
+    return realResolve(path, root);
+  } catch {
+    return resolve(root, path);
+  }
+}
+
+/**
+ * Whether the path a file tool will use matches a path glob. Both resolve
+ * against the workspace root and through symlinks (the glob up to its first
+ * wildcard), as the file tools do, so a link cannot slip past a rule.
+ */
+function matchesPath(path: string, glob: string, root: string): boolean {
+  const absolute = resolve(root, glob);
+  const wildcard = absolute.search(/[*?]/);
+  let pattern = realPath(absolute, root);
+  if (wildcard !== -1) {
+    const dirEnd = absolute.lastIndexOf(sep, wildcard);
+    const dir = realPath(absolute.slice(0, dirEnd) || sep, root);
+    pattern = (dir === sep ? "" : dir) + absolute.slice(dirEnd);
+  }
+  return globToRegExp(pattern).test(realPath(path, root));
+}
+
+function ruleMatches(
+  rule: PermissionRule,
+  action: PermissionAction,
+  name: string,
+  input: Record<string, unknown>,
+  root: string,
+): boolean {
+  if (!globToRegExp(rule.tool ?? "*").test(name)) return false;
+
+  if (rule.command !== undefined || rule.commandPattern !== undefined) {
+    if (name !== "bash" || typeof input.command !== "string") return false;
+    if (rule.command !== undefined && !matchesCommandPrefix(input.command, rule.command, action)) {
+      return false;
+    }
+    if (rule.commandPattern !== undefined && !new RegExp(rule.commandPattern).test(input.command)) {
+      return false;
+    }
+  }
+
+  if (rule.path !== undefined) {
+    if (!FILE_TOOLS.has(name) || typeof input.path !== "string") return false;
+    if (!matchesPath(input.path, rule.path, root)) return false;
+  }
+
+  return true;
+}
+
+/** Throw on rules that can never work, so mistakes surface at startup. */
+export function validatePermissions(permissions: PermissionsConfig): void {
+  for (const action of ["allow", "ask", "deny"] as const) {
+    permissions[action].forEach((rule, i) => {
+      if (rule.commandPattern === undefined) return;
+      try {
+        new RegExp(rule.commandPattern);
+      } catch (err) {
+        throw new Error(
+          `Invalid commandPattern in permissions.${action}[${i}]: ${(err as Error).message}`,
+        );
+      }
+    });
+  }
+}
+
+/**
+ * Decide whether a tool call may run, must be approved, or is refused. Path
+ * rules resolve against `root`, the workspace root the file tools use.
+ */
+export function checkPermission(
+  permissions: PermissionsConfig,
+  approval: ApprovalConfig,
+  name: string,
+  input: Record<string, unknown>,
+  root = process.cwd(),
+): PermissionCheck {
+  const absoluteRoot = resolve(root);
+  for (const action of ["deny", "ask", "allow"] as const) {
+    const rule = permissions[action].find((r) =>
+      ruleMatches(r, action, name, input, absoluteRoot),
+    );
+    if (rule) return { action, rule };
+  }
+  return { action: approval.tools.includes(name) ? "ask" : "allow" };
+}
+
+/** Short description of a rule for logs and denial messages. */
+export function describeRule(rule: PermissionRule): string {
+  const parts = [rule.tool ?? "*"];
+  if (rule.command !== undefined) parts.push(`command "${rule.command}"`);
+  if (rule.commandPattern !== undefined) parts.push(`command /${rule.commandPattern}/`);
+  if (rule.path !== undefined) parts.push(`path "${rule.path}"`);
+  return parts.join(" ");
+}
+
+/** The tool result the model sees for a call a deny rule refused. */
+export function permissionDeniedMessage(name: string, rule: PermissionRule): string {
+  return (
+    `Permission denied for "${name}" by rule ${describeRule(rule)}` +
+    `${rule.reason ? `: ${rule.reason}` : ""}. Do not retry it; find another way or ask the user.`
+  );
+}
@@ -0,0 +1,173 @@
+/**
+ * prompt.ts — System prompt templates.
+ *
+ * The system prompt is rendered from a template each turn, so runtime facts
+ * (date, time zone, OS, working directory, available tools) are always
+ * current. `{{name}}` placeholders are replaced with the variables below;
+ * unknown placeholders are left as they are. Section variables (skills,
+ * tools, memory) include their own heading and render empty when there is
+ * nothing to show, and the blank lines they leave behind are collapsed.
+ *
+ * Bootstrap files (SOUL.md, USER.md, AGENTS.md, TOOLS.md) in the memory
+ * directory are read each turn and injected as the `{{bootstrap}}` section,
+ * so the agent can maintain its own persona and notes with the file tools.
+ */
+
+import { readFileSync, existsSync } from "fs";
+import { resolve } from "path";
+import { type as osType, release, arch } from "os";
+import type { Skill } from "./skills.js";
+import type { Tool } from "./tools.js";
+
+/** The built-in layout: identity, bootstrap files, config prompt, skills, memories. */
+export const DEFAULT_PROMPT_TEMPLATE = `You are SlimClaw, a personal AI assistant.
+
+{{bootstrap}}
+
+{{systemPrompt}}
+
+{{skills}}
+
+{{memory}}
+`;
+
+/** Optional workspace files injected into the prompt, in prompt order. */
+export const BOOTSTRAP_FILES = [
+  { name: "SOUL.md", title: "Persona" },
+  { name: "USER.md", title: "About the User" },
+  { name: "AGENTS.md", title: "Operating Rules" },
+  { name: "TOOLS.md", title: "Tool Notes" },
+] as const;
+
+export interface BootstrapFile {
+  name: string;
+  title: string;
+  path: string;
+  content: string;
+  /** Set when the file was longer than the cap and cut. */
+  truncated: boolean;
+}
+
+/**
+ * Read the bootstrap files present in `dir`, each cut to `maxChars`
+ * (0 = no cap). Missing or empty files are skipped.
+ */
+export function loadBootstrapFiles(dir: string, maxChars: number): BootstrapFile[] {
+  const files: BootstrapFile[] = [];
+  for (const { name, title } of BOOTSTRAP_FILES) {
+    const path = resolve(dir, name);
+    if (!existsSync(path)) continue;
+    let content: string;
+    try {
+      content = readFileSync(path, "utf-8").trim();
+    } catch (err) {
+      console.warn(`Could not read ${path}: ${(err as Error).message}`);
+      continue;
+    }
+    if (!content) continue;
+    const truncated = maxChars > 0 && content.length > maxChars;
+    if (truncated) content = content.slice(0, maxChars);
+    files.push({ name, title, path, content, truncated });
+  }
+  return files;
+}
+
+export interface PromptInputs {
+  model: string;
+  systemPrompt?: string;
+  skills: Skill[];
+  tools: Tool[];
+  memoryContext: string;
+  bootstrapFiles?: BootstrapFile[];
+  now?: Date;
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function skillsSection(skills: Skill[]): string {
+  const parts: string[] = [];
+
+  // Always-on skills are injected in full
+  for (const skill of skills.filter((s) => s.always)) {
+    parts.push(`## Skill: ${skill.name}\n${skill.content}`);
+  }
+
+  // The rest are listed by name only (progressive disclosure)
+  const available = skills.filter((s) => !s.always);
+  if (available.length > 0) {
+    parts.push(
+      "## Available Skills\n" + available.map((s) => `- ${s.name}: ${s.description}`).join("\n"),
+    );
+  }
+
+  return parts.join("\n\n");
+}
+
+function bootstrapSection(files: BootstrapFile[]): string {
+  if (files.length === 0) return "";
+  const parts = [
+    "## Workspace Files\n" +
+      "These files define who you are, who you work for and how you operate. " +
+      "Keep them current with write_file and edit_file; changes apply from the next turn.",
+  ];
+  for (const file of files) {
+    const notice = file.truncated
+      ? `\n[... truncated to ${file.content.length} characters; read ${file.path} for the rest]`
+      : "";
+    parts.push(`### ${file.title} (${file.path})\n${file.content}${notice}`);
+  }
+  return parts.join("\n\n");
+}
+
+function toolsSection(tools: Tool[]): string {
+  if (tools.length === 0) return "";
+  return (
+    "## Available Tools\n" +
+    tools.map((t) => `- ${t.definition.name}: ${t.definition.description}`).join("\n")
+  );
+}
+
+/** The values available to templates, keyed by placeholder name. */
+export function promptVariables(inputs: PromptInputs): Record<string, string> {
+  const now = inputs.now ?? new Date();
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    os: `${osType()} ${release()} (${arch()})`,
+    cwd: process.cwd(),
+    model: inputs.model,
+    systemPrompt: inputs.systemPrompt ?? "",
+    bootstrap: bootstrapSection(inputs.bootstrapFiles ?? []),
+    skills: skillsSection(inputs.skills),
+    tools: toolsSection(inputs.tools),
+    memory: inputs.memoryContext ? `## Relevant Memories\n${inputs.memoryContext}` : "",
+  };
+}
+
+/** Substitute `{{name}}` placeholders and tidy the blank lines left by empty ones. */
+export function renderTemplate(template: string, variables: Record<string, string>): string {
+  return template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+      Object.hasOwn(variables, name) ? variables[name] : match,
+    )
+    .replace(/\n[ \t]*(\n[ \t]*)+\n/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Read a template file, falling back to the default layout when no path is
+ * configured or the file cannot be read. Read on every call so edits apply
+ * from the next turn.
+ */
+export function loadPromptTemplate(path?: string): string {
+  if (!path) return DEFAULT_PROMPT_TEMPLATE;
+  try {
+    return readFileSync(path, "utf-8");
+  } catch (err) {
+    console.warn(`Could not read prompt template ${path}: ${(err as Error).message}`);
+    return DEFAULT_PROMPT_TEMPLATE;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * repair.ts — Tolerant parsing of streamed tool-call arguments.
+ *
+ * OpenAI-style APIs stream tool arguments as JSON text, and models (local
+ * ones especially) sometimes produce text that is almost JSON: trailing
+ * commas, raw newlines inside strings, or missing closing brackets. This
+ * module repairs those cases so a tool call is not lost to a syntax slip.
+ * Values that were cut off are dropped, never guessed at.
+ */
+
+export type ParsedArguments =
+  | { ok: true; value: Record<string, unknown>; repaired: boolean }
+  | { ok: false; error: string };
+
+const CLOSERS: Record<string, string> = { "{": "}", "[": "]" };
+
+/** Characters that must be escaped inside a JSON string. */
+const CONTROL_ESCAPES: Record<string, string> = { "\n": "\\n", "\r": "\\r", "\t": "\\t" };
+
+function tryParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Drop a trailing comma (and whitespace) from the end of the output. */
+function stripTrailingComma(text: string): string {
+  return text.replace(/,\s*$/, "");
+}
+
+function close(text: string, stack: string[]): string {
+  return stripTrailingComma(text) + stack.map((c) => CLOSERS[c]).reverse().join("");
+}
+
+/**
+ * Whether the text stops right after a complete value, so only closing
+ * brackets are missing. A string, number or key cut off mid-way is not: the
+ * model may have meant `rm -rf /tmp/build/cache`, not `/tmp/build/cac`.
+ */
+function endsWithCompleteValue(text: string): boolean {
+  return /(?:["}\]]|\btrue|\bfalse|\bnull)\s*$/.test(stripTrailingComma(text));
+}
+
+/**
+ * Repair of almost-JSON text. Returns the input with its missing brackets
+ * closed, when it ends after a complete value, and the input cut back to the
+ * last complete member. The cut is only offered when it drops a top-level
+ * member; dropping part of a nested value would silently change it.
+ * Truncated values are never completed.
+ */
+function repairCandidates(text: string): { closed?: string; cut?: string } {
+  let out = "";
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  // Output length and open containers at the last point where cutting the
+  // rest off leaves only complete members
+  let safe = { length: 0, stack: [] as string[] };
+
+  for (const ch of text) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+        out += ch;
+      } else if (ch === "\\") {
+        escaped = true;
+        out += ch;
+      } else if (ch === '"') {
+        inString = false;
+        out += ch;
+      } else {
+        out += CONTROL_ESCAPES[ch] ?? ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      out += ch;
+    } else if (ch === "{" || ch === "[") {
+      stack.push(ch);
+      out += ch;
+      safe = { length: out.length, stack: [...stack] };
+    } else if (ch === "}" || ch === "]") {
+      out = stripTrailingComma(out);
+      stack.pop();
+      out += ch;
+      safe = { length: out.length, stack: [...stack] };
+    } else if (ch === ",") {
+      safe = { length: out.length, stack: [...stack] };
+      out += ch;
+    } else {
+      out += ch;
+    }
+  }
+
+  return {
+    closed: !inString && endsWithCompleteValue(out) ? close(out, stack) : undefined,
+    cut:
+      safe.stack.length === 1 && safe.stack[0] === "{"
+        ? close(out.slice(0, safe.length), safe.stack)
+        : undefined,
+  };
+}
+
+/**
+ * Parse tool-call arguments, repairing common defects. Empty text means no
+ * arguments. The result must be a JSON object. With the tool's input schema,
+ * arguments cut back past a required property are refused rather than run
+ * without it.
+ */
+export function parseToolArguments(text: string, schema?: object): ParsedArguments {
+  if (text.trim() === "") return { ok: true, value: {}, repaired: false };
+
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === "object" && v !== null && !Array.isArray(v);
+
+  const direct = tryParse(text);
+  if (direct !== undefined) {
+    return isObject(direct)
+      ? { ok: true, value: direct, repaired: false }
+      : { ok: false, error: "arguments must be a JSON object" };
+  }
+
+  const { closed, cut } = repairCandidates(text);
+  const value = closed === undefined ? undefined : tryParse(closed);
+  if (isObject(value)) return { ok: true, value, repaired: true };
+
+  const shortened = cut === undefined ? undefined : tryParse(cut);
+  if (isObject(shortened)) {
+    const required = (schema as { required?: unknown } | undefined)?.required;
+    const missing = Array.isArray(required) && required.some((key) => !(key in shortened));
+    return missing
+      ? { ok: false, error: "arguments were cut off" }
+      : { ok: true, value: shortened, repaired: true };
+  }
+  return { ok: false, error: "arguments are not valid JSON" };
+}
@@ -0,0 +1,149 @@
+/**
+ * retry.ts — Retry with backoff and a fallback model chain around LLMClient.
+ *
+ * Transient failures (rate limits, overload, 5xx, network errors) are retried
+ * with exponential backoff and jitter, honoring retry-after headers. When the
+ * primary model keeps failing, the call moves down the fallback list. Only
+ * failures before the first streamed event are retried; once output has
+ * reached the caller a retry would duplicate it, so the error is rethrown.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import type { LLMClient, LLMStreamParams, StreamEvent } from "./agent.js";
+
+export interface RetryOptions {
+  /** Retries per model after the first attempt. */
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface FallbackTarget {
+  model: string;
+  client: LLMClient;
+}
+
+/** Retryable 4xx statuses; every 5xx (including Anthropic's 529 overload) is retried too. */
+const RETRYABLE_STATUS = new Set([408, 409, 429]);
+
+/** Longest wait we accept from a retry-after header. */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+/** Whether an error from a provider SDK is worth retrying. */
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof Anthropic.APIUserAbortError || err instanceof OpenAI.APIUserAbortError) {
+    return false;
+  }
+  if (err instanceof Anthropic.APIConnectionError || err instanceof OpenAI.APIConnectionError) {
+    return true;
+  }
+  const e = err as { status?: unknown; error?: { error?: { type?: string } } };
+  if (typeof e.status === "number") {
+    return RETRYABLE_STATUS.has(e.status) || e.status >= 500;
+  }
+  // Anthropic reports overload mid-stream as an error event without a status
+  return e.error?.error?.type === "overloaded_error";
+}
+
+/** Read a retry-after delay (in ms) from an error's response headers. */
+export function retryAfterMs(err: unknown): number | undefined {
+  const headers = (err as { headers?: unknown }).headers;
+  if (!headers || typeof headers !== "object") return undefined;
+
+  const get = (name: string): string | undefined => {
+    const h = headers as { get?: (n: string) => string | null } & Record<string, unknown>;
+    const value = typeof h.get === "function" ? h.get(name) : h[name];
+    return typeof value === "string" ? value : undefined;
+  };
+
+  const ms = Number(get("retry-after-ms"));
+  if (get("retry-after-ms") && Number.isFinite(ms)) return ms;
+
+  const after = get("retry-after");
+  if (!after) return undefined;
+  const seconds = Number(after);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(after);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with equal jitter: half fixed, half random. */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const base = Math.min(options.maxDelayMs, options.initialDelayMs * 2 ** attempt);
+  return base / 2 + Math.random() * (base / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done);
+  });
+}
+
+export class RetryingClient implements LLMClient {
+  private primary: LLMClient;
+  private fallbacks: FallbackTarget[];
+  private options: RetryOptions;
+  private wait: (ms: number, signal?: AbortSignal) => Promise<void>;
+
+  constructor(
+    primary: LLMClient,
+    fallbacks: FallbackTarget[],
+    options: RetryOptions,
+    wait = sleep,
+  ) {
+    this.primary = primary;
+    this.fallbacks = fallbacks;
+    this.options = options;
+    this.wait = wait;
+  }
+
+  async *stream(params: LLMStreamParams): AsyncIterable<StreamEvent> {
+    const targets: FallbackTarget[] = [
+      { model: params.model, client: this.primary },
+      ...this.fallbacks,
+    ];
+    let lastError: unknown;
+
+    for (const [index, target] of targets.entries()) {
+      if (index > 0) {
+        console.warn(`LLM call failed, falling back to ${target.model}`);
+      }
+
+      for (let attempt = 0; ; attempt++) {
+        let started = false;
+        try {
+          for await (const event of target.client.stream({ ...params, model: target.model })) {
+            started = true;
+            // Tag usage with the model that actually served the call
+            yield event.type === "usage" ? { ...event, model: target.model } : event;
+          }
+          return;
+        } catch (err) {
+          if (started || params.signal?.aborted || !isRetryable(err)) throw err;
+          lastError = err;
+          if (attempt >= this.options.maxRetries) break;
+
+          const delay = Math.min(
+            retryAfterMs(err) ?? backoffDelay(attempt, this.options),
+            MAX_RETRY_AFTER_MS,
+          );
+          console.warn(
+            `LLM call to ${target.model} failed (${err instanceof Error ? err.message : String(err)}), ` +
+              `retrying in ${Math.round(delay)}ms`,
+          );
+          await this.wait(delay, params.signal);
+          if (params.signal?.aborted) throw err;
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
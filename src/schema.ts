@@ -0,0 +1,142 @@
+/**
+ * schema.ts — Validate tool inputs against their JSON Schema.
+ *
+ * Covers the subset of JSON Schema that tool definitions use in practice:
+ * type (including type unions), properties, required, additionalProperties,
+ * items, enum, const, string length, numeric bounds and array length.
+ * Unknown keywords are ignored. Scalars are coerced where the intent is
+ * unambiguous ("30" → 30, "true" → true, 30 → "30"), since models often quote
+ * numbers.
+ */
+
+type Schema = Record<string, unknown>;
+
+export type ValidationResult =
+  | { valid: true; value: Record<string, unknown> }
+  | { valid: false; errors: string[] };
+
+/** Types we check; schemas with anything else (e.g. a typo in a skill) skip the check. */
+const JSON_TYPES = new Set(["string", "number", "integer", "boolean", "object", "array", "null"]);
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/** Convert a scalar to the wanted type, or return undefined if that would be a guess. */
+function coerce(value: unknown, type: string): unknown {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if ((type === "number" || type === "integer") && trimmed !== "") {
+      const n = Number(trimmed);
+      if (Number.isFinite(n) && (type === "number" || Number.isInteger(n))) return n;
+    }
+    if (type === "boolean" && (trimmed === "true" || trimmed === "false")) {
+      return trimmed === "true";
+    }
+  }
+  if (type === "string" && (typeof value === "number" || typeof value === "boolean")) {
+    return String(value);
+  }
+  return undefined;
+}
+
+function describe(value: unknown): string {
+  const text = JSON.stringify(value);
+  return text !== undefined && text.length <= 40 ? `${typeOf(value)} ${text}` : typeOf(value);
+}
+
+function check(schema: Schema, value: unknown, path: string, errors: string[]): unknown {
+  // Type, with coercion when the value does not match any allowed type
+  const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter((t) =>
+    JSON_TYPES.has(t as string),
+  ) as string[];
+  if (types.length > 0) {
+    if (!types.some((t) => matchesType(value, t))) {
+      const coerced = types.map((t) => coerce(value, t)).find((v) => v !== undefined);
+      if (coerced === undefined) {
+        errors.push(`${path}: expected ${types.join(" or ")}, got ${describe(value)}`);
+        return value;
+      }
+      value = coerced;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => e === value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}`);
+  }
+  if ("const" in schema && schema.const !== value) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    const items = schema.items;
+    if (items && typeof items === "object" && !Array.isArray(items)) {
+      value = value.map((item, i) => check(items as Schema, item, `${path}[${i}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const obj = { ...(value as Record<string, unknown>) };
+    const properties = (schema.properties ?? {}) as Record<string, Schema>;
+
+    for (const key of (schema.required ?? []) as string[]) {
+      if (obj[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propValue] of Object.entries(obj)) {
+      if (properties[key]) {
+        obj[key] = check(properties[key], propValue, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: is not an allowed property`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        obj[key] = check(schema.additionalProperties as Schema, propValue, `${path}.${key}`, errors);
+      }
+    }
+    value = obj;
+  }
+
+  return value;
+}
+
+/**
+ * Validate a tool call's input against the tool's input_schema. Returns the
+ * (possibly coerced) input, or a list of readable errors for the model.
+ */
+export function validateInput(schema: object, input: unknown): ValidationResult {
+  const errors: string[] = [];
+  const value = check(schema as Schema, input, "input", errors);
+  if (errors.length > 0) return { valid: false, errors };
+  if (typeOf(value) !== "object") return { valid: false, errors: ["input: expected object"] };
+  return { valid: true, value: value as Record<string, unknown> };
+}
@@ -4,15 +4,23 @@ import { WebSocketServer, WebSocket } from "ws";
 import { join } from "path";
 import { fileURLToPath } from "url";
 
-import type { SlimClawConfig } from "./config.js";
+import type { SlimClawConfig, SamplingOptions } from "./config.js";
 import type { Tool } from "./tools.js";
 import type { Skill } from "./skills.js";
-import type { LLMClient } from "./agent.js";
+import type { ModelRoutes } from "./agent.js";
 import { agentTurn } from "./agent.js";
-import { createSession, loadSession, listSessions } from "./session.js";
-import type { Session } from "./session.js";
+import {
+  createSession,
+  loadSession,
+  listSessions,
+  loadSessionUsage,
+  setSessionSampling,
+} from "./session.js";
+import { summarizeUsage } from "./usage.js";
+import type { Session, ContentBlock } from "./session.js";
 import type { MemoryStore } from "./memory.js";
 import type { Heartbeat } from "./heartbeat.js";
+import type { ApprovalDecision, ApprovalHandler } from "./approval.js";
 
 const __dirname = fileURLToPath(new URL(".", import.meta.url));
 
@@ -22,11 +30,31 @@ interface ServerDeps {
   skills: Skill[];
   memory: MemoryStore;
   heartbeat: Heartbeat;
-  client: LLMClient;
+  models: ModelRoutes;
+}
+
+/** A file sent with chat.send, base64-encoded. */
+interface Attachment {
+  name?: string;
+  mediaType: string;
+  data: string;
+}
+
+const IMAGE_TYPES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+function attachmentToBlock(attachment: Attachment): ContentBlock {
+  const source = { type: "base64" as const, media_type: attachment.mediaType, data: attachment.data };
+  if (IMAGE_TYPES.has(attachment.mediaType)) {
+    return { type: "image", source };
+  }
+  if (attachment.mediaType === "application/pdf") {
+    return { type: "document", source, title: attachment.name };
+  }
+  throw new Error(`Unsupported attachment type: ${attachment.mediaType}`);
 }
 
 export function startServer(deps: ServerDeps): ReturnType<typeof createServer> {
-  const { config, tools, skills, memory, heartbeat, client } = deps;
+  const { config, tools, skills, memory, heartbeat, models } = deps;
 
   const app = express();
   const server = createServer(app);
@@ -55,7 +83,9 @@ export function startServer(deps: ServerDeps): ReturnType<typeof createServer> {
       turn: async (message: string) => {
         const session = createSession();
         let result = "";
-        for await (const event of agentTurn(session, message, config, client, tools, skills, "")) {
+        const { config: heartbeatConfig, client } = models.heartbeat;
+        const turn = agentTurn(session, message, heartbeatConfig, client, tools, skills, "");
+        for await (const event of turn) {
           if (event.type === "text") result += event.text;
         }
         return result;
@@ -68,6 +98,21 @@ export function startServer(deps: ServerDeps): ReturnType<typeof createServer> {
   wss.on("connection", (ws) => {
     clients.add(ws);
     let currentSession: Session | null = null;
+    // Controller for the in-flight chat.send turn, if any
+    let turnController: AbortController | null = null;
+    // Tool calls waiting for tool.approve / tool.deny, by tool_use id
+    const pendingApprovals = new Map<string, (decision: ApprovalDecision) => void>();
+    const approve: ApprovalHandler = (request) =>
+      new Promise((resolve) => pendingApprovals.set(request.id, resolve));
+
+    // Answer a pending approval request; false if there is none with that id
+    const answerApproval = (id: unknown, decision: ApprovalDecision): boolean => {
+      const resolve = typeof id === "string" ? pendingApprovals.get(id) : undefined;
+      if (!resolve) return false;
+      pendingApprovals.delete(id as string);
+      resolve(decision);
+      return true;
+    };
 
     ws.on("message", async (data) => {
       let msg: { method: string; params?: Record<string, unknown> };
@@ -97,6 +142,50 @@ export function startServer(deps: ServerDeps): ReturnType<typeof createServer> {
             break;
           }
 
+          case "session.usage": {
+            const sessionId =
+              (msg.params?.sessionId as string | undefined) ?? currentSession?.id;
+            const all = summarizeUsage(
+              listSessions().flatMap((s) => loadSessionUsage(s.id)),
+              config.pricing,
+            );
+            ws.send(
+              JSON.stringify({
+                event: "session.usage",
+                data: {
+                  sessionId: sessionId ?? null,
+                  session: sessionId
+                    ? summarizeUsage(loadSessionUsage(sessionId), config.pricing)
+                    : null,
+                  all,
+                },
+              }),
+            );
+            break;
+          }
+
+          case "session.settings": {
+            // Sampling overrides for the current session; omitted fields use the config
+            if (!currentSession) {
+              ws.send(
+                JSON.stringify({ event: "error", data: { message: "No active session" } }),
+              );
+              break;
+            }
+            const sampling = msg.params?.sampling as SamplingOptions | undefined;
+            if (sampling) setSessionSampling(currentSession, sampling);
+            ws.send(
+              JSON.stringify({
+                event: "session.settings",
+                data: {
+                  sessionId: currentSession.id,
+                  sampling: { ...models.chat.config.sampling, ...currentSession.sampling },
+                },
+              }),
+            );
+            break;
+          }
+
           case "chat.history": {
             const sessionId = msg.params?.sessionId as string | undefined;
             if (sessionId) {
@@ -119,14 +208,24 @@ export function startServer(deps: ServerDeps): ReturnType<typeof createServer> {
           }
 
           case "chat.send": {
-            const text = msg.params?.text as string;
-            if (!text) {
+            const text = (msg.params?.text as string | undefined) ?? "";
+            const attachments = (msg.params?.attachments as Attachment[] | undefined) ?? [];
+            if (!text && attachments.length === 0) {
               ws.send(
                 JSON.stringify({ event: "error", data: { message: "text required" } }),
               );
               break;
             }
 
+            // Attachments go before the text, as the providers recommend
+            const userMessage: string | ContentBlock[] =
+              attachments.length === 0
+                ? text
+                : [
+                    ...attachments.map(attachmentToBlock),
+                    ...(text ? [{ type: "text" as const, text }] : []),
+                  ];
+
             // Create session if none exists
             if (!currentSession) {
               const sessionId = msg.params?.sessionId as string | undefined;
@@ -141,50 +240,141 @@ export function startServer(deps: ServerDeps): ReturnType<typeof createServer> {
               }
             }
 
+            if (turnController) {
+              ws.send(
+                JSON.stringify({ event: "error", data: { message: "A turn is already running" } }),
+              );
+              break;
+            }
+
             // Get memory context
             const memoryContext = memory.getRecentContext();
 
             // Run agent turn, streaming events to client
-            for await (const event of agentTurn(
-              currentSession,
-              text,
-              config,
-              client,
-              tools,
-              skills,
-              memoryContext,
-            )) {
-              if (ws.readyState !== WebSocket.OPEN) break;
-
-              switch (event.type) {
-                case "text":
-                  ws.send(JSON.stringify({ event: "chunk", data: { text: event.text } }));
-                  break;
-                case "tool_start":
-                  ws.send(
-                    JSON.stringify({
-                      event: "tool_start",
-                      data: { name: event.name, input: event.input },
-                    }),
-                  );
-                  break;
-                case "tool_end":
-                  ws.send(
-                    JSON.stringify({
-                      event: "tool_end",
-                      data: { name: event.name, result: event.result },
-                    }),
-                  );
-                  break;
+            const controller = new AbortController();
+            turnController = controller;
+            try {
+              for await (const event of agentTurn(
+                currentSession,
+                userMessage,
+                models.chat.config,
+                models.chat.client,
+                tools,
+                skills,
+                memoryContext,
+                { signal: controller.signal, summarize: models.summarize, approve },
+              )) {
+                if (ws.readyState !== WebSocket.OPEN) continue;
+
+                switch (event.type) {
+                  case "text":
+                    ws.send(JSON.stringify({ event: "chunk", data: { text: event.text } }));
+                    break;
+                  case "thinking":
+                    ws.send(JSON.stringify({ event: "thinking", data: { text: event.text } }));
+                    break;
+                  case "tool_approval_request":
+                    ws.send(
+                      JSON.stringify({
+                        event: "tool_approval_request",
+                        data: { id: event.id, name: event.name, input: event.input },
+                      }),
+                    );
+                    break;
+                  case "tool_start":
+                    ws.send(
+                      JSON.stringify({
+                        event: "tool_start",
+                        data: { id: event.id, name: event.name, input: event.input },
+                      }),
+                    );
+                    break;
+                  case "tool_progress":
+                    ws.send(
+                      JSON.stringify({
+                        event: "tool_progress",
+                        data: { id: event.id, name: event.name, text: event.text },
+                      }),
+                    );
+                    break;
+                  case "tool_end":
+                    ws.send(
+                      JSON.stringify({
+                        event: "tool_end",
+                        data: {
+                          id: event.id,
+                          name: event.name,
+                          result: event.result,
+                          isError: event.isError,
+                          metadata: event.metadata,
+                        },
+                      }),
+                    );
+                    break;
+                  case "interrupted":
+                    ws.send(JSON.stringify({ event: "interrupted", data: {} }));
+                    break;
+                  case "budget_exhausted":
+                    ws.send(
+                      JSON.stringify({
+                        event: "budget_exhausted",
+                        data: { limit: event.limit },
+                      }),
+                    );
+                    break;
+                  case "continuation":
+                    ws.send(
+                      JSON.stringify({ event: "continuation", data: { count: event.count } }),
+                    );
+                    break;
+                }
               }
+            } finally {
+              turnController = null;
+              pendingApprovals.clear();
             }
 
-            ws.send(
-              JSON.stringify({
-                event: "done",
-                data: { sessionId: currentSession.id },
-              }),
-            );
+            if (ws.readyState === WebSocket.OPEN) {
+              ws.send(
+                JSON.stringify({
+                  event: "done",
+                  data: { sessionId: currentSession.id },
+                }),
+              );
+            }
+            break;
+          }
+
+          case "chat.cancel": {
+            // Aborting lets the running chat.send finish with an "interrupted" event
+            turnController?.abort();
+            break;
+          }
+
+          case "tool.approve": {
+            // Allow once, or for the rest of the session with scope "session"
+            const scope = msg.params?.scope === "session" ? "session" : "once";
+            if (!answerApproval(msg.params?.id, { type: "allow", scope })) {
+              ws.send(
+                JSON.stringify({
+                  event: "error",
+                  data: { message: "No pending approval with that id" },
+                }),
+              );
+            }
+            break;
+          }
+
+          case "tool.deny": {
+            const reason = msg.params?.reason as string | undefined;
+            if (!answerApproval(msg.params?.id, { type: "deny", reason: reason || undefined })) {
+              ws.send(
+                JSON.stringify({
+                  event: "error",
+                  data: { message: "No pending approval with that id" },
+                }),
+              );
+            }
             break;
           }
 
@@ -210,6 +400,7 @@ export function startServer(deps: ServerDeps): ReturnType<typeof createServer> {
 
     ws.on("close", () => {
       clients.delete(ws);
+      turnController?.abort();
     });
   });
 
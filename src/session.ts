@@ -2,13 +2,29 @@ import { readFileSync, writeFileSync, appendFileSync, existsSync, mkdirSync, rea
 import { join, dirname } from "path";
 import { randomUUID } from "crypto";
 import { homedir } from "os";
+import type { Usage } from "./usage.js";
+import type { SamplingOptions } from "./config.js";
 
 // ---------- Types (Anthropic-native message format) ----------
 
+export type MediaSource = { type: "base64"; media_type: string; data: string };
+
+export type TextBlock = { type: "text"; text: string };
+export type ImageBlock = { type: "image"; source: MediaSource };
+/** PDF input (Anthropic document block). */
+export type DocumentBlock = { type: "document"; source: MediaSource; title?: string };
+
+/** What a tool can hand back to the model: plain text or text + image parts. */
+export type ToolResultContent = string | Array<TextBlock | ImageBlock>;
+
 export type ContentBlock =
-  | { type: "text"; text: string }
+  | TextBlock
+  | ImageBlock
+  | DocumentBlock
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string }
   | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
-  | { type: "tool_result"; tool_use_id: string; content: string };
+  | { type: "tool_result"; tool_use_id: string; content: ToolResultContent; is_error?: boolean };
 
 export type Message = {
   role: "user" | "assistant";
@@ -19,6 +35,10 @@ export interface Session {
   id: string;
   messages: Message[];
   filePath: string;
+  /** Per-session overrides of the configured sampling settings. */
+  sampling?: SamplingOptions;
+  /** Tools the user allowed for the rest of the session (in memory only). */
+  approvedTools?: string[];
 }
 
 // ---------- JSONL entry types ----------
@@ -36,7 +56,37 @@ interface MessageEntry {
   timestamp: number;
 }
 
-type JournalEntry = SessionEntry | MessageEntry;
+interface UsageEntry {
+  type: "usage";
+  model: string;
+  usage: Usage;
+  timestamp: number;
+}
+
+/** The outcome of one tool call's permission check, kept for auditing. */
+export interface PermissionRecord {
+  toolUseId: string;
+  tool: string;
+  decision: "allow" | "deny";
+  /** What decided: a config rule, the default, the user, a session grant or the unattended policy. */
+  source: "rule" | "default" | "user" | "session" | "unattended";
+  /** The matching rule, described. */
+  rule?: string;
+  reason?: string;
+}
+
+interface PermissionEntry extends PermissionRecord {
+  type: "permission";
+  timestamp: number;
+}
+
+interface SettingsEntry {
+  type: "settings";
+  sampling: SamplingOptions;
+  timestamp: number;
+}
+
+type JournalEntry = SessionEntry | MessageEntry | UsageEntry | SettingsEntry | PermissionEntry;
 
 // ---------- Sessions directory ----------
 
@@ -78,6 +128,7 @@ export function loadSession(id: string): Session {
   const raw = readFileSync(filePath, "utf-8");
   const lines = raw.trim().split(/\r?\n/);
   const messages: Message[] = [];
+  let sampling: SamplingOptions | undefined;
 
   for (const line of lines) {
     if (!line.trim()) continue;
@@ -85,13 +136,15 @@ export function loadSession(id: string): Session {
       const entry = JSON.parse(line) as JournalEntry;
       if (entry.type === "message") {
         messages.push({ role: entry.role, content: entry.content });
+      } else if (entry.type === "settings") {
+        sampling = entry.sampling;
       }
     } catch {
       // Skip corrupt lines
     }
   }
 
-  return { id, messages, filePath };
+  return { id, messages, filePath, ...(sampling && { sampling }) };
 }
 
 /** Append a message to the session (in-memory + on disk). */
@@ -107,6 +160,80 @@ export function appendMessage(session: Session, message: Message): void {
   appendFileSync(session.filePath, JSON.stringify(entry) + "\n", "utf-8");
 }
 
+/** Record token usage for one LLM call (on disk only; not part of the history). */
+export function appendUsage(session: Session, model: string, usage: Usage): void {
+  const entry: UsageEntry = {
+    type: "usage",
+    model,
+    usage,
+    timestamp: Date.now(),
+  };
+  appendFileSync(session.filePath, JSON.stringify(entry) + "\n", "utf-8");
+}
+
+/** Record a tool permission decision (on disk only; not part of the history). */
+export function appendPermission(session: Session, record: PermissionRecord): void {
+  const entry: PermissionEntry = { type: "permission", ...record, timestamp: Date.now() };
+  appendFileSync(session.filePath, JSON.stringify(entry) + "\n", "utf-8");
+}
+
+/** Replace the session's sampling overrides (in-memory + on disk). */
+export function setSessionSampling(session: Session, sampling: SamplingOptions): void {
+  session.sampling = sampling;
+
+  const entry: SettingsEntry = {
+    type: "settings",
+    sampling,
+    timestamp: Date.now(),
+  };
+  appendFileSync(session.filePath, JSON.stringify(entry) + "\n", "utf-8");
+}
+
+/** Read the usage records of a session, one per LLM call. */
+export function loadSessionUsage(id: string): { model: string; usage: Usage }[] {
+  const filePath = sessionFilePath(id);
+  if (!existsSync(filePath)) {
+    throw new Error(`Session not found: ${id}`);
+  }
+
+  const records: { model: string; usage: Usage }[] = [];
+  for (const line of readFileSync(filePath, "utf-8").split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as JournalEntry;
+      if (entry.type === "usage") {
+        records.push({ model: entry.model, usage: entry.usage });
+      }
+    } catch {
+      // Skip corrupt lines
+    }
+  }
+  return records;
+}
+
+/** Read the permission decisions of a session, one per checked tool call. */
+export function loadSessionPermissions(id: string): PermissionRecord[] {
+  const filePath = sessionFilePath(id);
+  if (!existsSync(filePath)) {
+    throw new Error(`Session not found: ${id}`);
+  }
+
+  const records: PermissionRecord[] = [];
+  for (const line of readFileSync(filePath, "utf-8").split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as JournalEntry;
+      if (entry.type === "permission") {
+        const { type: _type, timestamp: _timestamp, ...record } = entry;
+        records.push(record);
+      }
+    } catch {
+      // Skip corrupt lines
+    }
+  }
+  return records;
+}
+
 /** List all sessions with their last-active timestamp. */
 export function listSessions(): { id: string; lastActive: number }[] {
   ensureSessionsDir();
@@ -0,0 +1,321 @@
+/**
+ * shell.ts — Run shell commands for the bash tool.
+ *
+ * `runCommand` starts a fresh shell for one command. `ShellManager` keeps a
+ * long-lived `/bin/sh` per SlimClaw session instead, so `cd`, `export` and
+ * activated virtualenvs carry over between calls. Each command is written to
+ * the shell followed by a `printf` of a random sentinel and the exit status;
+ * the command is done when the sentinel appears on stdout. A shell that is
+ * killed (timeout, cancel) or exits is replaced by a fresh one on the next
+ * call. Idle shells are closed after `shell.idleMinutes`.
+ */
+
+import { spawn } from "child_process";
+import type { ChildProcess } from "child_process";
+import { randomBytes } from "crypto";
+import { constants as osConstants } from "os";
+
+export interface ShellConfig {
+  /** Keep one shell per session so its working directory and environment persist. */
+  persistent: boolean;
+  /** Close a session's shell after this long without a command. */
+  idleMinutes: number;
+}
+
+export interface CommandOptions {
+  /** Milliseconds before the command (and its process tree) is killed. */
+  timeout: number;
+  signal?: AbortSignal;
+  /** Receives output as it arrives. */
+  onProgress?: (text: string) => void;
+}
+
+export interface CommandOutcome {
+  /** stdout and stderr interleaved in the order they arrived. */
+  output: string;
+  exitCode: number;
+  timedOut: boolean;
+  cancelled: boolean;
+  /** Output beyond MAX_OUTPUT_CHARS was discarded. */
+  discarded: boolean;
+  /** The persistent shell died, so its working directory and environment were lost. */
+  shellRestarted?: boolean;
+  error?: Error;
+}
+
+const IS_WINDOWS = process.platform === "win32";
+const SHELL = IS_WINDOWS ? "cmd.exe" : "/bin/sh";
+const SHELL_FLAG = IS_WINDOWS ? "/c" : "-c";
+
+/** Output kept from one command; anything beyond is discarded. */
+export const MAX_OUTPUT_CHARS = 10 * 1024 * 1024;
+
+/** How long to wait for the last output after a shell exits. */
+const EXIT_GRACE_MS = 200;
+
+/** Kill a command and every process it started. */
+export function killTree(child: ChildProcess): void {
+  if (child.pid === undefined || child.exitCode !== null || child.signalCode !== null) return;
+  if (IS_WINDOWS) {
+    spawn("taskkill", ["/pid", String(child.pid), "/T", "/F"], { stdio: "ignore" });
+    return;
+  }
+  try {
+    // The shell runs in its own process group (detached), so this reaches its children too
+    process.kill(-child.pid, "SIGKILL");
+  } catch {
+    // Already gone
+  }
+}
+
+function exitStatus(code: number | null, signal: NodeJS.Signals | null): number {
+  return code ?? (signal ? 128 + (osConstants.signals[signal] ?? 0) : 1);
+}
+
+/** Collects output up to MAX_OUTPUT_CHARS, forwarding every chunk to onProgress. */
+function outputCollector(onProgress?: (text: string) => void) {
+  const collected = { text: "", discarded: false };
+  const add = (chunk: string) => {
+    if (!chunk) return;
+    onProgress?.(chunk);
+    const room = MAX_OUTPUT_CHARS - collected.text.length;
+    if (chunk.length > room) collected.discarded = true;
+    collected.text += chunk.slice(0, Math.max(0, room));
+  };
+  return { collected, add };
+}
+
+/** Run one command in a fresh shell. */
+export function runCommand(command: string, options: CommandOptions): Promise<CommandOutcome> {
+  const { timeout, signal } = options;
+  return new Promise((resolve) => {
+    const child = spawn(SHELL, [SHELL_FLAG, command], {
+      detached: !IS_WINDOWS,
+      stdio: ["ignore", "pipe", "pipe"],
+      windowsHide: true,
+    });
+
+    const { collected, add } = outputCollector(options.onProgress);
+    let timedOut = false;
+    let error: Error | undefined;
+    child.stdout!.setEncoding("utf-8").on("data", add);
+    child.stderr!.setEncoding("utf-8").on("data", add);
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killTree(child);
+    }, timeout);
+    const onAbort = () => killTree(child);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    if (signal?.aborted) onAbort();
+
+    const finish = (code: number | null, killSignal: NodeJS.Signals | null) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      resolve({
+        output: collected.text,
+        exitCode: exitStatus(code, killSignal),
+        timedOut,
+        cancelled: signal?.aborted ?? false,
+        discarded: collected.discarded,
+        ...(error && { error }),
+      });
+    };
+    child.on("close", finish);
+    child.on("error", (err) => {
+      error = err;
+      // A command that never started emits no close
+      if (child.pid === undefined) finish(null, null);
+    });
+  });
+}
+
+/** Quote a string as a single shell word. */
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/** A long-lived POSIX shell that runs one command at a time. */
+export class ShellSession {
+  private child: ChildProcess | undefined;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /** Run a command once the previous one has finished. */
+  run(command: string, options: CommandOptions): Promise<CommandOutcome> {
+    const result = this.queue.then(() => this.execute(command, options));
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /** Kill the shell and everything it started; the next run starts a new one. */
+  close(): void {
+    if (this.child) killTree(this.child);
+    this.child = undefined;
+  }
+
+  private start(): ChildProcess {
+    const child = spawn("/bin/sh", [], {
+      detached: true,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    child.stdout!.setEncoding("utf-8");
+    child.stderr!.setEncoding("utf-8");
+    // Writing to a shell that just died must not crash the server
+    child.stdin!.on("error", () => {});
+    const forget = () => {
+      if (this.child === child) this.child = undefined;
+    };
+    child.on("exit", forget);
+    // A failed spawn (EAGAIN, EMFILE, no /bin/sh) emits error, not exit;
+    // unhandled, it would take the server down
+    child.on("error", forget);
+    this.child = child;
+    return child;
+  }
+
+  private execute(command: string, options: CommandOptions): Promise<CommandOutcome> {
+    const { timeout, signal } = options;
+    const child = this.child ?? this.start();
+    const marker = `__SLIMCLAW_DONE_${randomBytes(8).toString("hex")}__`;
+    // The sentinel line starts with a newline, so it is found even when the
+    // output does not end with one; that newline is stripped again below.
+    const markerStart = `\n${marker} `;
+
+    return new Promise((resolve) => {
+      const { collected, add } = outputCollector(options.onProgress);
+      let pending = "";
+      let timedOut = false;
+      let settled = false;
+      let graceTimer: NodeJS.Timeout | undefined;
+
+      const onStdout = (chunk: string) => {
+        pending += chunk;
+        const start = pending.indexOf(markerStart);
+        if (start !== -1) {
+          const lineEnd = pending.indexOf("\n", start + 1);
+          if (lineEnd === -1) return;
+          add(pending.slice(0, start));
+          done(Number(pending.slice(start + markerStart.length, lineEnd)));
+          return;
+        }
+        // Hold back a tail that could be the beginning of the sentinel
+        if (pending.length > markerStart.length) {
+          add(pending.slice(0, pending.length - markerStart.length));
+          pending = pending.slice(-markerStart.length);
+        }
+      };
+      // The shell itself exited: take what output is left and report its status
+      let shellStatus: number | undefined;
+      const onShellGone = () => {
+        if (shellStatus === undefined) return;
+        add(pending);
+        done(shellStatus, true);
+      };
+      let error: Error | undefined;
+      const onError = (err: Error) => {
+        error = err;
+        // A shell that never started emits no exit or close
+        if (child.pid === undefined) done(exitStatus(null, null));
+      };
+      const onExit = (code: number | null, killSignal: NodeJS.Signals | null) => {
+        shellStatus = exitStatus(code, killSignal);
+        // close waits for the pipes, which a background job may hold open
+        graceTimer = setTimeout(onShellGone, EXIT_GRACE_MS);
+      };
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        killTree(child);
+      }, timeout);
+      const onAbort = () => killTree(child);
+
+      function done(exitCode: number, shellRestarted = false) {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        clearTimeout(graceTimer);
+        signal?.removeEventListener("abort", onAbort);
+        child.stdout!.off("data", onStdout);
+        child.stderr!.off("data", add);
+        child.off("exit", onExit);
+        child.off("close", onShellGone);
+        child.off("error", onError);
+        resolve({
+          output: collected.text,
+          exitCode,
+          timedOut,
+          cancelled: signal?.aborted ?? false,
+          discarded: collected.discarded,
+          ...(shellRestarted && { shellRestarted }),
+          ...(error && { error }),
+        });
+      }
+
+      child.stdout!.on("data", onStdout);
+      child.stderr!.on("data", add);
+      child.on("exit", onExit);
+      child.on("close", onShellGone);
+      child.on("error", onError);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (signal?.aborted) onAbort();
+
+      // Commands read stdin from /dev/null so they cannot swallow the sentinel.
+      // A syntax error in a plain eval ends a POSIX shell (dash does exactly
+      // that); `command eval` only fails the command and keeps the shell.
+      child.stdin!.write(
+        `command eval ${shellQuote(command)} < /dev/null 2>&1\n` +
+          `printf '\\n%s %s\\n' '${marker}' "$?"\n`,
+      );
+    });
+  }
+}
+
+/** One persistent shell per SlimClaw session, closed when the session goes idle. */
+export class ShellManager {
+  private shells = new Map<
+    string,
+    { shell: ShellSession; running: number; idleTimer?: NodeJS.Timeout }
+  >();
+
+  constructor(private idleMs: number) {}
+
+  /** Run a command in the session's shell, starting one if needed. */
+  async run(sessionId: string, command: string, options: CommandOptions): Promise<CommandOutcome> {
+    let entry = this.shells.get(sessionId);
+    if (!entry) {
+      entry = { shell: new ShellSession(), running: 0 };
+      this.shells.set(sessionId, entry);
+    }
+    // A long command is not idleness: the timer only runs between commands
+    clearTimeout(entry.idleTimer);
+    entry.running++;
+    try {
+      return await entry.shell.run(command, options);
+    } finally {
+      entry.running--;
+      if (entry.running === 0 && this.shells.get(sessionId) === entry) {
+        entry.idleTimer = setTimeout(() => this.reset(sessionId), this.idleMs);
+        entry.idleTimer.unref();
+      }
+    }
+  }
+
+  /** Close the session's shell; its next command starts from a fresh one. */
+  reset(sessionId: string): void {
+    const entry = this.shells.get(sessionId);
+    if (!entry) return;
+    clearTimeout(entry.idleTimer);
+    entry.shell.close();
+    this.shells.delete(sessionId);
+  }
+
+  /** Close every shell, e.g. on server shutdown. */
+  closeAll(): void {
+    for (const sessionId of [...this.shells.keys()]) this.reset(sessionId);
+  }
+
+  /** Number of open shells. */
+  get size(): number {
+    return this.shells.size;
+  }
+}
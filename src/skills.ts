@@ -182,6 +182,7 @@ export function skillTools(skills: Skill[]): Tool[] {
             required: required.length > 0 ? required : undefined,
           },
         },
+        concurrent: true,
         async execute(_input) {
           // Skill tools are placeholders — the actual logic is in the LLM's
           // instructions from the skill content. This returns a note telling
@@ -1,4 +1,4 @@
-import type { SlimClawConfig } from "./config.js";
+import type { SlimClawConfig, SamplingOptions, ToolChoice } from "./config.js";
 import type { Tool } from "./tools.js";
 import type { LLMClient } from "./agent.js";
 import { agentTurn } from "./agent.js";
@@ -10,12 +10,15 @@ export interface SubAgentConfig {
   name: string;
   systemPrompt: string;
   task: string;
+  /** Overrides of the parent's sampling settings for this sub-agent. */
+  sampling?: SamplingOptions;
 }
 
 /**
  * Spawn an isolated sub-agent with its own session and custom system prompt.
  * Runs the full agent turn loop and returns the collected text output.
  * Sub-agents cannot spawn further sub-agents (spawn_agent tool is excluded).
+ * Tool calls that need approval follow the unattended approval policy.
  */
 export async function spawnSubAgent(
   parentConfig: SlimClawConfig,
@@ -23,6 +26,7 @@ export async function spawnSubAgent(
   client: LLMClient,
   tools: Tool[],
   depth = 1,
+  signal?: AbortSignal,
 ): Promise<string> {
   if (depth > MAX_DEPTH) {
     return `Error: Maximum sub-agent nesting depth (${MAX_DEPTH}) reached.`;
@@ -31,10 +35,11 @@ export async function spawnSubAgent(
   // Create isolated session
   const session = createSession(`subagent-${subConfig.name}-${Date.now()}`);
 
-  // Override system prompt
+  // Override system prompt and sampling
   const agentConfig: SlimClawConfig = {
     ...parentConfig,
     systemPrompt: subConfig.systemPrompt,
+    sampling: { ...parentConfig.sampling, ...subConfig.sampling },
   };
 
   // Exclude spawn_agent from sub-agent tools to prevent unbounded recursion
@@ -42,13 +47,18 @@ export async function spawnSubAgent(
 
   // Run the agent turn (non-streaming, collect full result)
   let result = "";
-  for await (const event of agentTurn(session, subConfig.task, agentConfig, client, subTools, [], "")) {
+  for await (const event of agentTurn(session, subConfig.task, agentConfig, client, subTools, [], "", { signal })) {
     if (event.type === "text") result += event.text;
   }
 
   return result;
 }
 
+/** Read a tool choice given as "auto", "none", "any" or a tool name. */
+function parseToolChoice(value: string): ToolChoice {
+  return value === "auto" || value === "none" || value === "any" ? value : { name: value };
+}
+
 /**
  * Create a spawn_agent tool that the main agent can use to delegate tasks.
  */
@@ -67,15 +77,33 @@ export function createSubAgentTool(
           name: { type: "string", description: "Name for the sub-agent" },
           task: { type: "string", description: "The task to accomplish" },
           system_prompt: { type: "string", description: "System prompt for the sub-agent" },
+          temperature: { type: "number", description: "Sampling temperature for the sub-agent" },
+          tool_choice: {
+            type: "string",
+            description:
+              'Tool the sub-agent must call first: "auto", "none", "any" or a tool name',
+          },
         },
         required: ["name", "task"],
       },
     },
-    execute: async (input) => {
+    execute: async (input, context) => {
       const name = input.name as string;
       const task = input.task as string;
       const systemPrompt = (input.system_prompt as string) ?? "";
-      return spawnSubAgent(config, { name, systemPrompt, task }, client, tools);
+      const sampling: SamplingOptions = {};
+      if (input.temperature !== undefined) sampling.temperature = input.temperature as number;
+      if (input.tool_choice !== undefined) {
+        sampling.toolChoice = parseToolChoice(input.tool_choice as string);
+      }
+      return spawnSubAgent(
+        config,
+        { name, systemPrompt, task, sampling },
+        client,
+        tools,
+        1,
+        context?.signal,
+      );
     },
   };
 }
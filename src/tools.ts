@@ -1,23 +1,69 @@
-import { execSync } from "child_process";
 import {
   readFileSync,
   writeFileSync,
   mkdirSync,
   existsSync,
 } from "fs";
-import { dirname } from "path";
+import { dirname, extname } from "path";
+import type { ToolResultContent } from "./session.js";
+import { Workspace } from "./workspace.js";
+import type { WorkspaceConfig } from "./workspace.js";
+import { runCommand } from "./shell.js";
+import type { CommandOutcome, ShellManager } from "./shell.js";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
+/** Per-call context handed to Tool.execute by the agent loop. */
+export interface ToolContext {
+  /** Aborted when the user cancels the turn; long-running tools should stop. */
+  signal?: AbortSignal;
+  /** Receives output as it is produced, shown live in the UI. */
+  onProgress?: (text: string) => void;
+  /** The SlimClaw session making the call; bash keeps one shell per session. */
+  sessionId?: string;
+}
+
+/** Extra facts about a tool call, shown in the UI but not sent to the model. */
+export interface ToolResultMetadata {
+  durationMs?: number;
+  /** Output was cut to fit maxToolResultChars. */
+  truncated?: boolean;
+  exitCode?: number;
+  [key: string]: unknown;
+}
+
+/** Structured tool output; tools may also return bare content. */
+export interface ToolResult {
+  content: ToolResultContent;
+  /** The call failed; sent to Anthropic as is_error. */
+  isError?: boolean;
+  metadata?: ToolResultMetadata;
+}
+
 export interface Tool {
   definition: {
     name: string;
     description: string;
     input_schema: object;
   };
-  execute: (input: Record<string, unknown>) => Promise<string>;
+  /** Safe to run at the same time as other concurrent tools (e.g. read-only lookups). */
+  concurrent?: boolean;
+  execute: (
+    input: Record<string, unknown>,
+    context?: ToolContext,
+  ) => Promise<ToolResultContent | ToolResult>;
+}
+
+/** A failed tool call. */
+export function toolError(message: string, metadata?: ToolResultMetadata): ToolResult {
+  return { content: `Error: ${message}`, isError: true, ...(metadata && { metadata }) };
+}
+
+/** Bring a tool's return value into ToolResult shape. */
+export function toToolResult(value: ToolResultContent | ToolResult): ToolResult {
+  return typeof value === "string" || Array.isArray(value) ? { content: value } : value;
 }
 
 // ---------------------------------------------------------------------------
@@ -44,20 +90,53 @@ export function truncateToolResult(
   );
 }
 
+/** Truncate text output; the result is flagged when anything was cut. */
+function textResult(text: string, maxChars: number): ToolResultContent | ToolResult {
+  const content = truncateToolResult(text, maxChars);
+  return content === text ? content : { content, metadata: { truncated: true } };
+}
+
 // ---------------------------------------------------------------------------
 // Built-in tools
 // ---------------------------------------------------------------------------
 
-const IS_WINDOWS = process.platform === "win32";
-const SHELL = IS_WINDOWS ? "cmd.exe" : "/bin/sh";
-const SHELL_FLAG = IS_WINDOWS ? "/c" : "-c";
+/** Turn a finished command into the tool result the model sees. */
+function commandResult(
+  run: CommandOutcome,
+  timeout: number,
+  maxResultChars: number,
+): ToolResultContent | ToolResult {
+  let output = run.output;
+  if (run.discarded) output += "\n[Output limit reached; the rest was discarded]\n";
+  if (run.exitCode === 0 && !run.timedOut && !run.cancelled && !run.shellRestarted) {
+    return textResult(output, maxResultChars);
+  }
+  const combined =
+    `Exit code: ${run.exitCode}\n` +
+    (run.timedOut ? `Timed out after ${timeout} ms\n` : "") +
+    (run.cancelled ? "Cancelled by user\n" : "") +
+    (run.shellRestarted
+      ? "The shell exited; the next command starts a new one in the original directory and environment\n"
+      : "") +
+    (run.error ? `Error: ${run.error.message}\n` : "") +
+    output;
+  const content = truncateToolResult(combined, maxResultChars);
+  return {
+    content,
+    isError: true,
+    metadata: { exitCode: run.exitCode, ...(content !== combined && { truncated: true }) },
+  };
+}
 
-function bashTool(maxResultChars: number): Tool {
+function bashTool(maxResultChars: number, shells?: ShellManager): Tool {
   return {
     definition: {
       name: "bash",
       description:
-        "Execute a shell command and return stdout + stderr. Use for running scripts, installing packages, or any shell operation.",
+        "Execute a shell command and return its combined stdout + stderr. Use for running scripts, installing packages, or any shell operation." +
+        (shells
+          ? " The shell persists for the session: the working directory, environment variables and activated virtualenvs carry over between calls. Pass reset to start over with a fresh shell."
+          : ""),
       input_schema: {
         type: "object",
         properties: {
@@ -70,49 +149,61 @@ function bashTool(maxResultChars: number): Tool {
             description:
               "Timeout in milliseconds (default 30 000)",
           },
+          ...(shells && {
+            reset: {
+              type: "boolean",
+              description:
+                "Replace the session's shell with a fresh one before running the command (or on its own)",
+            },
+          }),
         },
-        required: ["command"],
+        required: shells ? [] : ["command"],
       },
     },
-    async execute(input) {
-      const command = input.command as string;
+    async execute(input, context) {
+      const command = input.command as string | undefined;
       const timeout = (input.timeout as number) ?? 30_000;
+      const options = { timeout, signal: context?.signal, onProgress: context?.onProgress };
+      const sessionId = context?.sessionId;
+
+      if (!shells || !sessionId) {
+        if (!command) return toolError("command is required");
+        return commandResult(await runCommand(command, options), timeout, maxResultChars);
+      }
 
-      try {
-        const output = execSync(command, {
-          timeout,
-          encoding: "utf-8",
-          shell: SHELL,
-          maxBuffer: 10 * 1024 * 1024, // 10 MB
-          stdio: ["pipe", "pipe", "pipe"],
-        });
-        return truncateToolResult(output, maxResultChars);
-      } catch (err: unknown) {
-        const e = err as {
-          stdout?: string;
-          stderr?: string;
-          message?: string;
-          status?: number;
-        };
-        const stdout = e.stdout ?? "";
-        const stderr = e.stderr ?? "";
-        const combined =
-          `Exit code: ${e.status ?? 1}\n` +
-          (stdout ? `stdout:\n${stdout}\n` : "") +
-          (stderr ? `stderr:\n${stderr}\n` : "") +
-          ((!stdout && !stderr) ? `Error: ${e.message}\n` : "");
-        return truncateToolResult(combined, maxResultChars);
+      if (input.reset === true) shells.reset(sessionId);
+      if (!command) {
+        return input.reset === true
+          ? "Shell reset. The next command starts in the original directory and environment."
+          : toolError("command is required");
       }
+      return commandResult(
+        await shells.run(sessionId, command, options),
+        timeout,
+        maxResultChars,
+      );
     },
   };
 }
 
-function readFileTool(maxResultChars: number): Tool {
+/** Image types read_file hands to the model as images instead of text. */
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+/** Largest image the providers accept inline. */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+function readFileTool(maxResultChars: number, workspace?: Workspace): Tool {
   return {
     definition: {
       name: "read_file",
       description:
-        "Read a file and return its contents with line numbers (like cat -n). Supports offset and limit for partial reads.",
+        "Read a file and return its contents with line numbers (like cat -n). Supports offset and limit for partial reads. PNG, JPEG, GIF and WebP images are returned as images.",
       input_schema: {
         type: "object",
         properties: {
@@ -132,16 +223,29 @@ function readFileTool(maxResultChars: number): Tool {
         required: ["path"],
       },
     },
+    concurrent: true,
     async execute(input) {
       const filePath = input.path as string;
       const offset = (input.offset as number | undefined) ?? 1;
       const limit = input.limit as number | undefined;
+      const target = workspace?.resolveForRead(filePath) ?? filePath;
+
+      if (!existsSync(target)) {
+        return toolError(`File not found: ${filePath}`);
+      }
 
-      if (!existsSync(filePath)) {
-        return `Error: File not found: ${filePath}`;
+      const mediaType = IMAGE_MEDIA_TYPES[extname(target).toLowerCase()];
+      if (mediaType) {
+        const data = readFileSync(target);
+        if (data.length > MAX_IMAGE_BYTES) {
+          return toolError(`Image too large (${data.length} bytes, max ${MAX_IMAGE_BYTES}): ${filePath}`);
+        }
+        return [
+          { type: "image", source: { type: "base64", media_type: mediaType, data: data.toString("base64") } },
+        ];
       }
 
-      const content = readFileSync(filePath, "utf-8");
+      const content = readFileSync(target, "utf-8");
       let lines = content.split(/\r?\n/);
 
       // Apply offset (1-based)
@@ -158,12 +262,12 @@ function readFileTool(maxResultChars: number): Tool {
         (line, i) => `${String(startIdx + i + 1).padStart(6, " ")}\t${line}`,
       );
 
-      return truncateToolResult(numbered.join("\n"), maxResultChars);
+      return textResult(numbered.join("\n"), maxResultChars);
     },
   };
 }
 
-function writeFileTool(): Tool {
+function writeFileTool(workspace?: Workspace): Tool {
   return {
     definition: {
       name: "write_file",
@@ -187,16 +291,17 @@ function writeFileTool(): Tool {
     async execute(input) {
       const filePath = input.path as string;
       const content = input.content as string;
+      const target = workspace?.resolveForWrite(filePath) ?? filePath;
 
-      mkdirSync(dirname(filePath), { recursive: true });
-      writeFileSync(filePath, content, "utf-8");
+      mkdirSync(dirname(target), { recursive: true });
+      writeFileSync(target, content, "utf-8");
 
       return `Successfully wrote ${content.length} characters to ${filePath}`;
     },
   };
 }
 
-function editFileTool(): Tool {
+function editFileTool(workspace?: Workspace): Tool {
   return {
     definition: {
       name: "edit_file",
@@ -225,25 +330,26 @@ function editFileTool(): Tool {
       const filePath = input.path as string;
       const oldString = input.old_string as string;
       const newString = input.new_string as string;
+      const target = workspace?.resolveForWrite(filePath) ?? filePath;
 
-      if (!existsSync(filePath)) {
-        return `Error: File not found: ${filePath}`;
+      if (!existsSync(target)) {
+        return toolError(`File not found: ${filePath}`);
       }
 
-      const content = readFileSync(filePath, "utf-8");
+      const content = readFileSync(target, "utf-8");
 
       // Count occurrences
       const occurrences = content.split(oldString).length - 1;
 
       if (occurrences === 0) {
-        return `Error: old_string not found in ${filePath}`;
+        return toolError(`old_string not found in ${filePath}`);
       }
       if (occurrences > 1) {
-        return `Error: old_string appears ${occurrences} times in ${filePath} (must be unique)`;
+        return toolError(`old_string appears ${occurrences} times in ${filePath} (must be unique)`);
       }
 
       const updated = content.replace(oldString, newString);
-      writeFileSync(filePath, updated, "utf-8");
+      writeFileSync(target, updated, "utf-8");
 
       return `Successfully edited ${filePath}`;
     },
@@ -254,13 +360,24 @@ function editFileTool(): Tool {
 // Factory
 // ---------------------------------------------------------------------------
 
+/**
+ * The built-in tools. With a workspace, the file tools are confined to it
+ * (plus memoryDir, so the agent can edit its bootstrap files). With shells,
+ * bash keeps one shell per session.
+ */
 export function createBuiltinTools(config: {
   maxToolResultChars: number;
+  workspace?: WorkspaceConfig;
+  memoryDir?: string;
+  shells?: ShellManager;
 }): Tool[] {
+  const workspace = config.workspace
+    ? new Workspace(config.workspace, config.memoryDir ? [config.memoryDir] : [])
+    : undefined;
   return [
-    bashTool(config.maxToolResultChars),
-    readFileTool(config.maxToolResultChars),
-    writeFileTool(),
-    editFileTool(),
+    bashTool(config.maxToolResultChars, config.shells),
+    readFileTool(config.maxToolResultChars, workspace),
+    writeFileTool(workspace),
+    editFileTool(workspace),
   ];
 }
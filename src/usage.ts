@@ -0,0 +1,93 @@
+/**
+ * usage.ts — Token usage and cost accounting.
+ *
+ * LLM clients report token counts per call as `usage` stream events; the agent
+ * stores them in the session JSONL and this module turns them into totals and
+ * cost using the configured per-model price table.
+ */
+
+export interface Usage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the provider's prompt cache. */
+  cacheReadTokens: number;
+  /** Input tokens written to the provider's prompt cache. */
+  cacheWriteTokens: number;
+  /** Hidden reasoning tokens, when reported (already included in outputTokens). */
+  reasoningTokens?: number;
+}
+
+/** USD per million tokens. Cache prices fall back to the input price. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export interface UsageTotals extends Usage {
+  reasoningTokens: number;
+  /** Number of LLM calls counted. */
+  calls: number;
+  /** Total cost in USD (0 for models missing from the price table). */
+  cost: number;
+}
+
+export const DEFAULT_PRICING: PriceTable = {
+  "claude-opus-4": { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+};
+
+export function emptyUsage(): Usage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+/**
+ * Look up the price for a model. Keys match as prefixes so dated model names
+ * ("claude-sonnet-4-20250514") pick up their family price; the longest key wins.
+ */
+export function findPrice(model: string, pricing: PriceTable): ModelPrice | undefined {
+  let best: string | undefined;
+  for (const key of Object.keys(pricing)) {
+    if (model.startsWith(key) && (!best || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? pricing[best] : undefined;
+}
+
+/** Cost of one call in USD. */
+export function costOf(usage: Usage, model: string, pricing: PriceTable): number {
+  const price = findPrice(model, pricing);
+  if (!price) return 0;
+  return (
+    (usage.inputTokens * price.input +
+      usage.outputTokens * price.output +
+      usage.cacheReadTokens * (price.cacheRead ?? price.input) +
+      usage.cacheWriteTokens * (price.cacheWrite ?? price.input)) /
+    1_000_000
+  );
+}
+
+/** Sum a list of per-call usage records into totals with cost. */
+export function summarizeUsage(
+  records: Array<{ model: string; usage: Usage }>,
+  pricing: PriceTable,
+): UsageTotals {
+  const totals: UsageTotals = { ...emptyUsage(), reasoningTokens: 0, calls: 0, cost: 0 };
+  for (const { model, usage } of records) {
+    totals.inputTokens += usage.inputTokens;
+    totals.outputTokens += usage.outputTokens;
+    totals.cacheReadTokens += usage.cacheReadTokens;
+    totals.cacheWriteTokens += usage.cacheWriteTokens;
+    totals.reasoningTokens += usage.reasoningTokens ?? 0;
+    totals.calls++;
+    totals.cost += costOf(usage, model, pricing);
+  }
+  return totals;
+}
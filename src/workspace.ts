@@ -0,0 +1,96 @@
+/**
+ * workspace.ts — Confine the file tools to the workspace.
+ *
+ * read_file, write_file and edit_file may only touch paths inside the
+ * workspace root (and memoryDir, so the agent can maintain its bootstrap
+ * files); reads may also use the extra `readRoots`. Paths are resolved
+ * through realpath, so a symlink inside the workspace cannot reach outside
+ * it. The same check keeps memory_save inside memoryDir.
+ */
+
+import { realpathSync, lstatSync } from "fs";
+import { resolve, relative, dirname, basename, join, isAbsolute, sep } from "path";
+
+export interface WorkspaceConfig {
+  /** Directory the file tools may read and write; relative paths resolve against it. */
+  root: string;
+  /** Extra directories the file tools may read but not write. */
+  readRoots: string[];
+}
+
+/**
+ * Resolve a path to its real location, following symlinks. Components that
+ * do not exist yet (a file about to be written) are appended to the real path
+ * of their nearest existing ancestor. A dangling symlink is rejected, since
+ * writing through it would create its target wherever it points.
+ */
+export function realResolve(path: string, base = process.cwd()): string {
+  const absolute = resolve(base, path);
+  const missing: string[] = [];
+  let current = absolute;
+  while (true) {
+    let exists = true;
+    try {
+      lstatSync(current);
+    } catch {
+      exists = false;
+    }
+    if (exists) {
+      let real: string;
+      try {
+        real = realpathSync(current);
+      } catch {
+        throw new Error(`Cannot resolve ${current}: it is a broken symlink`);
+      }
+      return missing.length > 0 ? join(real, ...missing.reverse()) : real;
+    }
+    const parent = dirname(current);
+    if (parent === current) return absolute;
+    missing.push(basename(current));
+    current = parent;
+  }
+}
+
+/** Whether `path` is `root` or inside it; both must be real, absolute paths. */
+export function isInside(path: string, root: string): boolean {
+  const rel = relative(root, path);
+  return rel === "" || (rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * Resolve `path` (relative to `base`) and check it lies inside one of the
+ * roots. Returns the real path; throws if it is outside.
+ */
+export function resolveWithin(path: string, roots: string[], base = process.cwd()): string {
+  const real = realResolve(path, base);
+  const realRoots = roots.map((root) => realResolve(root));
+  if (!realRoots.some((root) => isInside(real, root))) {
+    throw new Error(
+      `Access denied: ${path} is outside the allowed directories (${realRoots.join(", ")})`,
+    );
+  }
+  return real;
+}
+
+export class Workspace {
+  readonly root: string;
+  private writeRoots: string[];
+  private readRoots: string[];
+
+  /** `extraWriteRoots` are writable besides the root (e.g. memoryDir). */
+  constructor(config: WorkspaceConfig, extraWriteRoots: string[] = []) {
+    this.root = resolve(config.root);
+    this.writeRoots = [this.root, ...extraWriteRoots.map((r) => resolve(r))];
+    this.readRoots = [...this.writeRoots, ...config.readRoots.map((r) => resolve(r))];
+  }
+
+  /** The real path of a file the tools may read; throws if it is off limits. */
+  resolveForRead(path: string): string {
+    return resolveWithin(path, this.readRoots, this.root);
+  }
+
+  /** The real path of a file the tools may write; throws if it is off limits. */
+  resolveForWrite(path: string): string {
+    return resolveWithin(path, this.writeRoots, this.root);
+  }
+}
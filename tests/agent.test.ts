@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { mkdtempSync, rmSync } from "fs";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
 import { testConfig } from "./helpers.js";
@@ -20,14 +20,19 @@ const {
   agentTurn,
   buildSystemPrompt,
   createLLMClient,
+  createModelRoutes,
+  INTERRUPTED_MARKER,
 } = await import("../src/agent.js");
 type LLMClient = import("../src/agent.js").LLMClient;
 type StreamEvent = import("../src/agent.js").StreamEvent;
 type Tool = import("../src/agent.js").Tool;
 type Skill = import("../src/agent.js").Skill;
 
-const { createSession } = await import("../src/session.js");
+const { createSession, loadSession, loadSessionUsage, loadSessionPermissions } = await import(
+  "../src/session.js"
+);
 type Session = import("../src/session.js").Session;
+type ContentBlock = import("../src/session.js").ContentBlock;
 
 import { afterAll } from "vitest";
 
@@ -144,6 +149,49 @@ describe("buildSystemPrompt", () => {
     const prompt = buildSystemPrompt(testConfig(), [], "");
     expect(prompt).not.toContain("## Relevant Memories");
   });
+
+  it("keeps the default layout", () => {
+    const skills: Skill[] = [
+      { name: "math", description: "Math helper", content: "Do math things", always: true },
+    ];
+    const prompt = buildSystemPrompt(testConfig({ systemPrompt: "Be brief." }), skills, "Likes tea.");
+    expect(prompt).toBe(
+      "You are SlimClaw, a personal AI assistant.\n\nBe brief.\n\n" +
+        "## Skill: math\nDo math things\n\n## Relevant Memories\nLikes tea.",
+    );
+  });
+
+  it("injects bootstrap files from the memory dir, capped", () => {
+    const memoryDir = mkdtempSync(join(TEST_HOME, "memory-"));
+    writeFileSync(join(memoryDir, "SOUL.md"), "You speak like a pirate.");
+    writeFileSync(join(memoryDir, "AGENTS.md"), "Always confirm before deleting. " + "x".repeat(100));
+
+    const prompt = buildSystemPrompt(
+      testConfig({ memoryDir, bootstrapMaxChars: 40, systemPrompt: "Be brief." }),
+      [],
+      "",
+    );
+
+    expect(prompt).toMatch(/^You are SlimClaw, a personal AI assistant\.\n\n## Workspace Files/);
+    expect(prompt).toContain(`### Persona (${join(memoryDir, "SOUL.md")})\nYou speak like a pirate.`);
+    expect(prompt).toContain("Always confirm before deleting.");
+    expect(prompt).toContain("[... truncated to 40 characters");
+    expect(prompt.indexOf("## Workspace Files")).toBeLessThan(prompt.indexOf("Be brief."));
+  });
+
+  it("renders a template file with runtime variables", () => {
+    const templatePath = join(TEST_HOME, "prompt.md");
+    writeFileSync(templatePath, "Model {{model}} in {{cwd}} on {{date}}.\n\n{{tools}}\n\n{{memory}}");
+    const echoTool = createTestTool("echo", () => "");
+
+    const prompt = buildSystemPrompt(testConfig({ promptTemplate: templatePath }), [], "", [echoTool]);
+
+    expect(prompt).toMatch(
+      new RegExp(`^Model claude-sonnet-4-20250514 in .+ on \\d{4}-\\d{2}-\\d{2}\\.\\n\\n## Available Tools`),
+    );
+    expect(prompt).toContain("- echo: Test tool: echo");
+    expect(prompt).not.toContain("You are SlimClaw");
+  });
 });
 
 describe("agentTurn", () => {
@@ -231,6 +279,75 @@ describe("agentTurn", () => {
     expect((toolEndEvents[1] as { type: "tool_end"; result: string }).result).toBe("20");
   });
 
+  it("runs consecutive concurrent tools together and reports ids", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const lookup: Tool = {
+      definition: { name: "lookup", description: "Lookup", input_schema: { type: "object" } },
+      concurrent: true,
+      execute: async (input) => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((r) => setTimeout(r, Number(input.delay)));
+        active--;
+        return `done ${input.delay}`;
+      },
+    };
+
+    const client = mockLLMClient([
+      {
+        toolUses: [
+          { id: "slow", name: "lookup", input: { delay: 40 } },
+          { id: "fast", name: "lookup", input: { delay: 5 } },
+        ],
+      },
+      { text: "ok" },
+    ]);
+
+    const events = await collectEvents(
+      agentTurn(session, "look up", testConfig(), client, [lookup], [], ""),
+    );
+
+    expect(maxActive).toBe(2);
+    // tool_end arrives in completion order, tagged with the tool_use id
+    const ends = events.filter((e) => e.type === "tool_end");
+    expect(ends.map((e) => (e as { id: string }).id)).toEqual(["fast", "slow"]);
+    // but tool results keep the model's order
+    expect(session.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "slow", content: "done 40" },
+      { type: "tool_result", tool_use_id: "fast", content: "done 5" },
+    ]);
+  });
+
+  it("runs non-concurrent tools one at a time", async () => {
+    let active = 0;
+    let maxActive = 0;
+    const write: Tool = {
+      definition: { name: "write", description: "Write", input_schema: { type: "object" } },
+      execute: async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((r) => setTimeout(r, 5));
+        active--;
+        return "written";
+      },
+    };
+
+    const client = mockLLMClient([
+      {
+        toolUses: [
+          { id: "tu1", name: "write", input: {} },
+          { id: "tu2", name: "write", input: {} },
+        ],
+      },
+      { text: "ok" },
+    ]);
+
+    await collectEvents(agentTurn(session, "write", testConfig(), client, [write], [], ""));
+
+    expect(maxActive).toBe(1);
+  });
+
   it("stops looping when no tool_use is returned", async () => {
     const client = mockLLMClient([{ text: "Just text." }]);
 
@@ -289,6 +406,120 @@ describe("agentTurn", () => {
     );
   });
 
+  it("flags failed tool calls and reports metadata", async () => {
+    const lintTool: Tool = {
+      definition: { name: "lint", description: "Lint", input_schema: { type: "object" } },
+      execute: async () => ({
+        content: "3 problems",
+        isError: true,
+        metadata: { exitCode: 1 },
+      }),
+    };
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "lint", input: {} }] },
+      { text: "Fixing." },
+    ]);
+
+    const events = await collectEvents(
+      agentTurn(session, "lint", testConfig(), client, [lintTool], [], ""),
+    );
+
+    const toolEnd = events.find((e) => e.type === "tool_end");
+    expect(toolEnd).toMatchObject({
+      id: "tu1",
+      result: "3 problems",
+      isError: true,
+      metadata: { exitCode: 1, durationMs: expect.any(Number) },
+    });
+    expect(session.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "tu1", content: "3 problems", is_error: true },
+    ]);
+  });
+
+  it("flags unknown tools and thrown errors as errors", async () => {
+    const failTool = createTestTool("fail", () => {
+      throw new Error("Something broke");
+    });
+    const client = mockLLMClient([
+      {
+        toolUses: [
+          { id: "tu1", name: "nonexistent", input: {} },
+          { id: "tu2", name: "fail", input: {} },
+        ],
+      },
+      { text: "OK" },
+    ]);
+
+    await collectEvents(agentTurn(session, "go", testConfig(), client, [failTool], [], ""));
+
+    const results = session.messages[2].content as ContentBlock[];
+    expect(results.every((b) => b.type === "tool_result" && b.is_error)).toBe(true);
+  });
+
+  it("validates tool input before execution", async () => {
+    const execute = vi.fn(async (input: Record<string, unknown>) => `slept ${input.seconds}`);
+    const sleepTool: Tool = {
+      definition: {
+        name: "sleep",
+        description: "Sleep",
+        input_schema: {
+          type: "object",
+          properties: { seconds: { type: "number" } },
+          required: ["seconds"],
+        },
+      },
+      execute,
+    };
+    const client = mockLLMClient([
+      {
+        toolUses: [
+          { id: "tu1", name: "sleep", input: {} },
+          { id: "tu2", name: "sleep", input: { seconds: "30" } },
+        ],
+      },
+      { text: "done" },
+    ]);
+
+    await collectEvents(agentTurn(session, "nap", testConfig(), client, [sleepTool], [], ""));
+
+    // The invalid call never reaches the tool; the quoted number is coerced
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute.mock.calls[0][0]).toEqual({ seconds: 30 });
+    const results = session.messages[2].content as ContentBlock[];
+    expect(results[0]).toMatchObject({
+      is_error: true,
+      content: expect.stringContaining("input.seconds: is required"),
+    });
+    expect(results[1]).toMatchObject({ content: "slept 30" });
+  });
+
+  it("answers tool calls with unparseable arguments without running them", async () => {
+    const execute = vi.fn(async () => "ran");
+    const writeTool: Tool = {
+      definition: { name: "write_file", description: "Write", input_schema: { type: "object" } },
+      execute,
+    };
+    const client: LLMClient = {
+      async *stream() {
+        yield { type: "tool_use", id: "tu1", name: "write_file", input: {}, inputError: "bad JSON" };
+        yield { type: "message_stop", stop_reason: "tool_use" };
+      },
+    };
+    const responses = [client, mockLLMClient([{ text: "Retrying." }])];
+    let call = 0;
+    const sequenced: LLMClient = { stream: (params) => responses[call++].stream(params) };
+
+    await collectEvents(agentTurn(session, "write", testConfig(), sequenced, [writeTool], [], ""));
+
+    expect(execute).not.toHaveBeenCalled();
+    expect((session.messages[2].content as ContentBlock[])[0]).toMatchObject({
+      type: "tool_result",
+      tool_use_id: "tu1",
+      is_error: true,
+      content: expect.stringContaining("Could not parse the arguments"),
+    });
+  });
+
   it("passes tool definitions to LLM client", async () => {
     const streamSpy = vi.fn();
     const spyClient: LLMClient = {
@@ -312,6 +543,751 @@ describe("agentTurn", () => {
   });
 });
 
+describe("agentTurn media", () => {
+  const image = {
+    type: "image" as const,
+    source: { type: "base64" as const, media_type: "image/png", data: "iVBORw0KGgo=" },
+  };
+
+  it("accepts content blocks as the user message", async () => {
+    const client = mockLLMClient([{ text: "A cat." }]);
+    const userMessage: ContentBlock[] = [image, { type: "text", text: "What is this?" }];
+
+    await collectEvents(agentTurn(session, userMessage, testConfig(), client, [], [], ""));
+
+    expect(session.messages[0]).toEqual({ role: "user", content: userMessage });
+  });
+
+  it("passes image tool results to the model and summarizes them for the UI", async () => {
+    const screenshot: Tool = {
+      definition: { name: "screenshot", description: "Shot", input_schema: { type: "object" } },
+      execute: async () => [{ type: "text", text: "Screen:" }, image],
+    };
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "screenshot", input: {} }] },
+      { text: "I see it." },
+    ]);
+
+    const events = await collectEvents(
+      agentTurn(session, "look", testConfig(), client, [screenshot], [], ""),
+    );
+
+    expect(events.find((e) => e.type === "tool_end")).toMatchObject({
+      result: "Screen:\n[image: image/png]",
+    });
+    expect(session.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "tu1", content: [{ type: "text", text: "Screen:" }, image] },
+    ]);
+  });
+});
+
+describe("agentTurn cancellation", () => {
+  it("records an interrupted marker when aborted mid-stream", async () => {
+    const controller = new AbortController();
+    const client: LLMClient = {
+      async *stream() {
+        yield { type: "text", text: "Partial" };
+        controller.abort();
+        yield { type: "text", text: " never seen" };
+        yield { type: "message_stop", stop_reason: "end_turn" };
+      },
+    };
+
+    const events = await collectEvents(
+      agentTurn(session, "hi", testConfig(), client, [], [], "", { signal: controller.signal }),
+    );
+
+    expect(events.map((e) => e.type)).toEqual(["text", "interrupted"]);
+    expect(session.messages).toHaveLength(2);
+    expect(session.messages[1]).toEqual({
+      role: "assistant",
+      content: `Partial\n\n${INTERRUPTED_MARKER}`,
+    });
+  });
+
+  it("treats a provider abort error as an interruption", async () => {
+    const controller = new AbortController();
+    const client: LLMClient = {
+      async *stream(params) {
+        controller.abort();
+        if (params.signal?.aborted) throw new Error("Request was aborted.");
+        yield { type: "message_stop", stop_reason: "end_turn" };
+      },
+    };
+
+    const events = await collectEvents(
+      agentTurn(session, "hi", testConfig(), client, [], [], "", { signal: controller.signal }),
+    );
+
+    expect(events).toEqual([{ type: "interrupted" }]);
+    expect(session.messages[1].content).toBe(INTERRUPTED_MARKER);
+  });
+
+  it("answers skipped tool calls and stops after the running tool", async () => {
+    const controller = new AbortController();
+    const seen: Array<AbortSignal | undefined> = [];
+    const slowTool: Tool = {
+      definition: { name: "slow", description: "Slow", input_schema: { type: "object" } },
+      execute: async (_input, context) => {
+        seen.push(context?.signal);
+        controller.abort();
+        return "partial work";
+      },
+    };
+    const client = mockLLMClient([
+      {
+        toolUses: [
+          { id: "tu1", name: "slow", input: {} },
+          { id: "tu2", name: "slow", input: {} },
+        ],
+      },
+    ]);
+
+    const events = await collectEvents(
+      agentTurn(session, "go", testConfig(), client, [slowTool], [], "", {
+        signal: controller.signal,
+      }),
+    );
+
+    expect(seen).toEqual([controller.signal]);
+    expect(events.filter((e) => e.type === "tool_start")).toHaveLength(1);
+    expect(events[events.length - 1]).toEqual({ type: "interrupted" });
+
+    // user, assistant (tool_use x2), user (tool_result x2), assistant (marker)
+    expect(session.messages).toHaveLength(4);
+    expect(session.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "tu1", content: "partial work" },
+      { type: "tool_result", tool_use_id: "tu2", content: INTERRUPTED_MARKER, is_error: true },
+    ]);
+    expect(session.messages[3]).toEqual({ role: "assistant", content: INTERRUPTED_MARKER });
+  });
+});
+
+describe("agentTurn tool progress", () => {
+  it("passes tool output on before the result", async () => {
+    const streaming: Tool = {
+      definition: { name: "stream", description: "Streams", input_schema: { type: "object" } },
+      execute: async (_input, context) => {
+        context?.onProgress?.("step 1\n");
+        await new Promise((r) => setTimeout(r, 10));
+        context?.onProgress?.("step 2\n");
+        await new Promise((r) => setTimeout(r, 10));
+        return "all done";
+      },
+    };
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "stream", input: {} }] },
+      { text: "Finished." },
+    ]);
+
+    const events = await collectEvents(
+      agentTurn(session, "go", testConfig(), client, [streaming], [], ""),
+    );
+
+    expect(events.filter((e) => e.type.startsWith("tool_"))).toMatchObject([
+      { type: "tool_start", id: "tu1" },
+      { type: "tool_progress", id: "tu1", name: "stream", text: "step 1\n" },
+      { type: "tool_progress", id: "tu1", name: "stream", text: "step 2\n" },
+      { type: "tool_end", id: "tu1", result: "all done" },
+    ]);
+  });
+
+  it("tells tools which session is calling", async () => {
+    let sessionId: string | undefined;
+    const tool: Tool = {
+      definition: { name: "who", description: "Who", input_schema: { type: "object" } },
+      execute: async (_input, context) => {
+        sessionId = context?.sessionId;
+        return "ok";
+      },
+    };
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "who", input: {} }] },
+      { text: "Done." },
+    ]);
+
+    await collectEvents(agentTurn(session, "go", testConfig(), client, [tool], [], ""));
+
+    expect(sessionId).toBe(session.id);
+  });
+});
+
+describe("agentTurn tool approval", () => {
+  const approvalConfig = (unattended: "allow" | "deny" = "deny") =>
+    testConfig({ approval: { tools: ["risky"], unattended } });
+
+  function riskyTool() {
+    const calls: Record<string, unknown>[] = [];
+    const tool = createTestTool("risky", (input) => {
+      calls.push(input);
+      return "did it";
+    });
+    return { tool, calls };
+  }
+
+  it("pauses for approval and runs the call once allowed", async () => {
+    const { tool, calls } = riskyTool();
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "risky", input: { path: "x" } }] },
+      { text: "Done." },
+    ]);
+    const approve = vi.fn(async () => ({ type: "allow" as const, scope: "once" as const }));
+
+    const events = await collectEvents(
+      agentTurn(session, "go", approvalConfig(), client, [tool], [], "", { approve }),
+    );
+
+    expect(approve).toHaveBeenCalledWith({ id: "tu1", name: "risky", input: { path: "x" } });
+    expect(events.map((e) => e.type)).toEqual([
+      "tool_approval_request",
+      "tool_start",
+      "tool_end",
+      "text",
+    ]);
+    expect(calls).toEqual([{ path: "x" }]);
+  });
+
+  it("does not ask again after allow for session", async () => {
+    const { tool, calls } = riskyTool();
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "risky", input: {} }] },
+      { toolUses: [{ id: "tu2", name: "risky", input: {} }] },
+      { text: "Done." },
+    ]);
+    const approve = vi.fn(async () => ({ type: "allow" as const, scope: "session" as const }));
+
+    await collectEvents(agentTurn(session, "go", approvalConfig(), client, [tool], [], "", { approve }));
+
+    expect(approve).toHaveBeenCalledTimes(1);
+    expect(calls).toHaveLength(2);
+    expect(session.approvedTools).toEqual(["risky"]);
+  });
+
+  it("answers a denied call with the reason and skips the tool", async () => {
+    const { tool, calls } = riskyTool();
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "risky", input: {} }] },
+      { text: "Okay, I won't." },
+    ]);
+    const approve = async () => ({ type: "deny" as const, reason: "not on prod" });
+
+    const events = await collectEvents(
+      agentTurn(session, "go", approvalConfig(), client, [tool], [], "", { approve }),
+    );
+
+    expect(calls).toHaveLength(0);
+    expect(events.find((e) => e.type === "tool_end")).toMatchObject({ id: "tu1", isError: true });
+    const result = (session.messages[2].content as ContentBlock[])[0];
+    expect(result).toMatchObject({ type: "tool_result", tool_use_id: "tu1", is_error: true });
+    expect((result as { content: string }).content).toContain("denied: not on prod");
+  });
+
+  it("applies the unattended policy without an approval handler", async () => {
+    const denied = riskyTool();
+    await collectEvents(
+      agentTurn(
+        session,
+        "go",
+        approvalConfig("deny"),
+        mockLLMClient([{ toolUses: [{ id: "tu1", name: "risky", input: {} }] }, { text: "ok" }]),
+        [denied.tool],
+        [],
+        "",
+      ),
+    );
+    expect(denied.calls).toHaveLength(0);
+
+    const allowed = riskyTool();
+    await collectEvents(
+      agentTurn(
+        session,
+        "go",
+        approvalConfig("allow"),
+        mockLLMClient([{ toolUses: [{ id: "tu2", name: "risky", input: {} }] }, { text: "ok" }]),
+        [allowed.tool],
+        [],
+        "",
+      ),
+    );
+    expect(allowed.calls).toHaveLength(1);
+  });
+
+  it("stops waiting when the turn is cancelled", async () => {
+    const { tool, calls } = riskyTool();
+    const controller = new AbortController();
+    const client = mockLLMClient([{ toolUses: [{ id: "tu1", name: "risky", input: {} }] }]);
+    const approve = () => {
+      setTimeout(() => controller.abort(), 0);
+      return new Promise<never>(() => {});
+    };
+
+    const events = await collectEvents(
+      agentTurn(session, "go", approvalConfig(), client, [tool], [], "", {
+        signal: controller.signal,
+        approve,
+      }),
+    );
+
+    expect(calls).toHaveLength(0);
+    expect(events[events.length - 1]).toEqual({ type: "interrupted" });
+    expect(session.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "tu1", content: INTERRUPTED_MARKER, is_error: true },
+    ]);
+  });
+});
+
+describe("agentTurn permissions", () => {
+  it("refuses calls a deny rule matches and tells the model why", async () => {
+    const calls: unknown[] = [];
+    const bash = createTestTool("bash", (input) => {
+      calls.push(input);
+      return "ran";
+    });
+    const config = testConfig({
+      permissions: {
+        allow: [],
+        ask: [],
+        deny: [{ tool: "bash", command: "rm", reason: "deleting is off limits" }],
+      },
+    });
+    const client = mockLLMClient([
+      {
+        toolUses: [
+          { id: "tu1", name: "bash", input: { command: "rm -rf build" } },
+          { id: "tu2", name: "bash", input: { command: "ls" } },
+        ],
+      },
+      { text: "Listed instead." },
+    ]);
+
+    const events = await collectEvents(agentTurn(session, "clean", config, client, [bash], [], ""));
+
+    expect(calls).toEqual([{ command: "ls" }]);
+    expect(events.find((e) => e.type === "tool_end")).toMatchObject({ id: "tu1", isError: true });
+    const results = session.messages[2].content as ContentBlock[];
+    expect(results[0]).toMatchObject({ tool_use_id: "tu1", is_error: true });
+    expect((results[0] as { content: string }).content).toContain("deleting is off limits");
+    expect(loadSessionPermissions(session.id)).toEqual([
+      {
+        toolUseId: "tu1",
+        tool: "bash",
+        decision: "deny",
+        source: "rule",
+        rule: 'bash command "rm"',
+        reason: "deleting is off limits",
+      },
+      { toolUseId: "tu2", tool: "bash", decision: "allow", source: "default" },
+    ]);
+  });
+
+  it("asks about calls an ask rule matches and logs the answer", async () => {
+    const bash = createTestTool("bash", () => "pushed");
+    const config = testConfig({
+      permissions: { allow: [], ask: [{ tool: "bash", command: "git push" }], deny: [] },
+    });
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "bash", input: { command: "git push" } }] },
+      { text: "Pushed." },
+    ]);
+    const approve = vi.fn(async () => ({ type: "allow" as const, scope: "once" as const }));
+
+    await collectEvents(agentTurn(session, "push", config, client, [bash], [], "", { approve }));
+
+    expect(approve).toHaveBeenCalledTimes(1);
+    expect(loadSessionPermissions(session.id)).toEqual([
+      {
+        toolUseId: "tu1",
+        tool: "bash",
+        decision: "allow",
+        source: "user",
+        rule: 'bash command "git push"',
+      },
+    ]);
+  });
+
+  it("skips the question for calls an allow rule matches", async () => {
+    const bash = createTestTool("bash", () => "ok");
+    const config = testConfig({
+      approval: { tools: ["bash"], unattended: "deny" },
+      permissions: { allow: [{ tool: "bash", command: "npm test" }], ask: [], deny: [] },
+    });
+    const client = mockLLMClient([
+      { toolUses: [{ id: "tu1", name: "bash", input: { command: "npm test" } }] },
+      { text: "Tests pass." },
+    ]);
+    const approve = vi.fn();
+
+    await collectEvents(agentTurn(session, "test", config, client, [bash], [], "", { approve }));
+
+    expect(approve).not.toHaveBeenCalled();
+    expect(loadSessionPermissions(session.id)[0]).toMatchObject({ decision: "allow", source: "rule" });
+  });
+});
+
+describe("agentTurn thinking", () => {
+  it("streams thinking and stores signed blocks before tool calls", async () => {
+    const streamSpy = vi.fn();
+    let call = 0;
+    const client: LLMClient = {
+      async *stream(params) {
+        streamSpy(params);
+        call++;
+        if (call === 1) {
+          yield { type: "thinking", text: "Let me check." };
+          yield {
+            type: "thinking_block",
+            block: { type: "thinking", thinking: "Let me check.", signature: "sig-1" },
+          };
+          yield { type: "tool_use", id: "tu1", name: "echo", input: {} };
+          yield { type: "message_stop", stop_reason: "tool_use" };
+        } else {
+          yield { type: "text", text: "Done." };
+          yield { type: "message_stop", stop_reason: "end_turn" };
+        }
+      },
+    };
+    const config = testConfig({ thinking: { budgetTokens: 2048 } });
+
+    const events = await collectEvents(
+      agentTurn(session, "think", config, client, [createTestTool("echo", () => "ok")], [], ""),
+    );
+
+    expect(events[0]).toEqual({ type: "thinking", text: "Let me check." });
+    expect(events.some((e) => e.type === "thinking_block")).toBe(false);
+    expect(streamSpy.mock.calls[0][0].thinking).toEqual({ budgetTokens: 2048 });
+
+    // The signed block leads the assistant message and is replayed next round
+    const assistant = session.messages[1].content as ContentBlock[];
+    expect(assistant[0]).toEqual({ type: "thinking", thinking: "Let me check.", signature: "sig-1" });
+    expect(assistant[1]).toMatchObject({ type: "tool_use", id: "tu1" });
+    expect(streamSpy.mock.calls[1][0].messages[1]).toEqual(session.messages[1]);
+  });
+});
+
+describe("agentTurn usage", () => {
+  it("forwards usage events and records them in the session", async () => {
+    const usage = { inputTokens: 120, outputTokens: 30, cacheReadTokens: 50, cacheWriteTokens: 0 };
+    const client: LLMClient = {
+      async *stream() {
+        yield { type: "text", text: "hi" };
+        yield { type: "usage", usage };
+        yield { type: "message_stop", stop_reason: "end_turn" };
+      },
+    };
+
+    const events = await collectEvents(
+      agentTurn(session, "hello", testConfig(), client, [], [], ""),
+    );
+
+    expect(events).toContainEqual({ type: "usage", usage });
+    expect(loadSessionUsage(session.id)).toEqual([
+      { model: "claude-sonnet-4-20250514", usage },
+    ]);
+  });
+
+  it("counts reported output tokens against the budget", async () => {
+    let calls = 0;
+    const client: LLMClient = {
+      async *stream() {
+        calls++;
+        yield { type: "tool_use", id: `tu${calls}`, name: "echo", input: {} };
+        yield {
+          type: "usage",
+          usage: { inputTokens: 10, outputTokens: 600, cacheReadTokens: 0, cacheWriteTokens: 0 },
+        };
+        yield { type: "message_stop", stop_reason: "tool_use" };
+      },
+    };
+    const config = testConfig({
+      limits: { maxIterations: 0, maxToolCalls: 0, maxTurnSeconds: 0, maxOutputTokens: 1000 },
+    });
+
+    const events = await collectEvents(
+      agentTurn(session, "go", config, client, [createTestTool("echo", () => "ok")], [], ""),
+    );
+
+    // 600 + 600 tokens crosses the 1000 limit after two calls, then one summary call
+    expect(calls).toBe(3);
+    expect(events).toContainEqual({ type: "budget_exhausted", limit: "output_tokens" });
+  });
+});
+
+describe("agentTurn limits", () => {
+  /** A client that asks for the same tool forever until given no tools to call. */
+  function loopingClient(): LLMClient & { calls: number } {
+    const client = {
+      calls: 0,
+      async *stream(): AsyncIterable<StreamEvent> {
+        client.calls++;
+        yield { type: "text", text: `round ${client.calls}` };
+        yield { type: "tool_use", id: `tu${client.calls}`, name: "echo", input: {} };
+        yield { type: "message_stop", stop_reason: "tool_use" };
+      },
+    };
+    return client;
+  }
+
+  it("stops after maxIterations with a final summary round", async () => {
+    const client = loopingClient();
+    const echoTool = createTestTool("echo", () => "again");
+    const config = testConfig({
+      limits: { maxIterations: 3, maxToolCalls: 0, maxTurnSeconds: 0, maxOutputTokens: 0 },
+    });
+
+    const events = await collectEvents(
+      agentTurn(session, "loop", config, client, [echoTool], [], ""),
+    );
+
+    // 3 budgeted round-trips + 1 summary call
+    expect(client.calls).toBe(4);
+    expect(events.filter((e) => e.type === "budget_exhausted")).toEqual([
+      { type: "budget_exhausted", limit: "iterations" },
+    ]);
+
+    // The notice rides along with the last tool results
+    const noticeMsg = session.messages[session.messages.length - 2];
+    expect(noticeMsg.content).toContainEqual(
+      expect.objectContaining({ type: "text", text: expect.stringContaining("Budget exhausted") }),
+    );
+
+    // The summary round's tool call is dropped, leaving a plain text answer
+    expect(session.messages[session.messages.length - 1]).toEqual({
+      role: "assistant",
+      content: "round 4",
+    });
+  });
+
+  it("sends the wrap-up call to the summarize model", async () => {
+    const client = loopingClient();
+    const summarizer = mockLLMClient([{ text: "cheap summary" }]);
+    const streamSpy = vi.spyOn(summarizer, "stream");
+    const echoTool = createTestTool("echo", () => "again");
+    const config = testConfig({
+      limits: { maxIterations: 1, maxToolCalls: 0, maxTurnSeconds: 0, maxOutputTokens: 0 },
+    });
+    const summarizeConfig = testConfig({ model: "claude-3-5-haiku-latest", maxTokens: 256 });
+
+    await collectEvents(
+      agentTurn(session, "loop", config, client, [echoTool], [], "", {
+        summarize: { config: summarizeConfig, client: summarizer },
+      }),
+    );
+
+    expect(client.calls).toBe(1);
+    expect(streamSpy.mock.calls[0][0]).toMatchObject({
+      model: "claude-3-5-haiku-latest",
+      max_tokens: 256,
+    });
+    expect(session.messages.at(-1)?.content).toBe("cheap summary");
+  });
+
+  it("skips tool calls beyond maxToolCalls", async () => {
+    const client = mockLLMClient([
+      {
+        toolUses: [
+          { id: "tu1", name: "echo", input: {} },
+          { id: "tu2", name: "echo", input: {} },
+        ],
+      },
+      { text: "summary" },
+    ]);
+    const echoTool = createTestTool("echo", () => "ran");
+    const config = testConfig({
+      limits: { maxIterations: 0, maxToolCalls: 1, maxTurnSeconds: 0, maxOutputTokens: 0 },
+    });
+
+    const events = await collectEvents(
+      agentTurn(session, "two calls", config, client, [echoTool], [], ""),
+    );
+
+    expect(events.filter((e) => e.type === "tool_end")).toHaveLength(1);
+    expect(events).toContainEqual({ type: "budget_exhausted", limit: "tool_calls" });
+    const results = session.messages[2].content as Array<{ type: string; content?: string }>;
+    expect(results[0].content).toBe("ran");
+    expect(results[1].content).toContain("budget for this turn is exhausted");
+    expect(session.messages[3].content).toBe("summary");
+  });
+});
+
+describe("agentTurn sampling", () => {
+  function recordingClient(responses: Parameters<typeof mockLLMClient>[0]) {
+    const client = mockLLMClient(responses);
+    const spy = vi.spyOn(client, "stream");
+    return { client, spy };
+  }
+
+  it("passes configured sampling settings to every call", async () => {
+    const { client, spy } = recordingClient([{ text: "ok" }]);
+    const config = testConfig({
+      sampling: { temperature: 0, topP: 0.5, stopSequences: ["END"] },
+    });
+
+    await collectEvents(agentTurn(session, "hi", config, client, [], [], ""));
+
+    expect(spy.mock.calls[0][0]).toMatchObject({
+      temperature: 0,
+      topP: 0.5,
+      stopSequences: ["END"],
+      toolChoice: undefined,
+    });
+  });
+
+  it("lets session overrides win over the config", async () => {
+    const { client, spy } = recordingClient([{ text: "ok" }]);
+    session.sampling = { temperature: 1 };
+
+    await collectEvents(
+      agentTurn(session, "hi", testConfig({ sampling: { temperature: 0, topP: 0.5 } }), client, [], [], ""),
+    );
+
+    expect(spy.mock.calls[0][0]).toMatchObject({ temperature: 1, topP: 0.5 });
+  });
+
+  it("forces the tool choice on the first call only", async () => {
+    const { client, spy } = recordingClient([
+      { toolUses: [{ id: "tu1", name: "echo", input: {} }] },
+      { text: "done" },
+    ]);
+    const echoTool = createTestTool("echo", () => "echoed");
+    const config = testConfig({ sampling: { toolChoice: { name: "echo" } } });
+
+    await collectEvents(agentTurn(session, "go", config, client, [echoTool], [], ""));
+
+    expect(spy.mock.calls[0][0].toolChoice).toEqual({ name: "echo" });
+    expect(spy.mock.calls[1][0].toolChoice).toBeUndefined();
+  });
+
+  it("disables tools on the budget wrap-up call", async () => {
+    const { client, spy } = recordingClient([
+      { toolUses: [{ id: "tu1", name: "echo", input: {} }] },
+      { text: "summary" },
+    ]);
+    const echoTool = createTestTool("echo", () => "echoed");
+    const config = testConfig({
+      limits: { maxIterations: 1, maxToolCalls: 0, maxTurnSeconds: 0, maxOutputTokens: 0 },
+    });
+
+    await collectEvents(agentTurn(session, "go", config, client, [echoTool], [], ""));
+
+    expect(spy.mock.calls[1][0].toolChoice).toBe("none");
+  });
+});
+
+describe("agentTurn continuation", () => {
+  it("continues a response cut off at max_tokens", async () => {
+    const client = mockLLMClient([
+      { text: "The first half", stop_reason: "max_tokens" },
+      { text: " and the rest." },
+    ]);
+
+    const events = await collectEvents(
+      agentTurn(session, "write a lot", testConfig(), client, [], [], ""),
+    );
+
+    expect(events).toContainEqual({ type: "continuation", count: 1 });
+    expect(session.messages.map((m) => m.role)).toEqual(["user", "assistant", "user", "assistant"]);
+    expect(session.messages[1].content).toBe("The first half");
+    expect(session.messages[2].content).toEqual([
+      { type: "text", text: expect.stringContaining("Output truncated") },
+    ]);
+    expect(session.messages[3].content).toBe(" and the rest.");
+  });
+
+  it("discards a truncated tool call instead of running it", async () => {
+    const execute = vi.fn(async () => "ran");
+    const writeTool: Tool = {
+      definition: { name: "write_file", description: "Write", input_schema: { type: "object" } },
+      execute,
+    };
+    const client = mockLLMClient([
+      {
+        toolUses: [
+          { id: "tu1", name: "write_file", input: { path: "a.txt", content: "done" } },
+          { id: "tu2", name: "write_file", input: { path: "b.txt" } },
+        ],
+        stop_reason: "max_tokens",
+      },
+      { text: "Retrying." },
+    ]);
+
+    await collectEvents(agentTurn(session, "write", testConfig(), client, [writeTool], [], ""));
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(session.messages[1].content).toEqual([
+      { type: "tool_use", id: "tu1", name: "write_file", input: { path: "a.txt", content: "done" } },
+    ]);
+    const results = session.messages[2].content as ContentBlock[];
+    expect(results[0]).toMatchObject({ type: "tool_result", tool_use_id: "tu1", content: "ran" });
+    expect(results[1]).toMatchObject({
+      type: "text",
+      text: expect.stringContaining("call to write_file was cut off"),
+    });
+  });
+
+  it("never saves an empty assistant message when the only tool call was cut off", async () => {
+    const execute = vi.fn(async () => "ran");
+    const writeTool: Tool = {
+      definition: { name: "write_file", description: "Write", input_schema: { type: "object" } },
+      execute,
+    };
+    const client = mockLLMClient([
+      {
+        toolUses: [{ id: "tu1", name: "write_file", input: { path: "big.txt" } }],
+        stop_reason: "max_tokens",
+      },
+      { text: "Writing it in parts." },
+    ]);
+
+    await collectEvents(agentTurn(session, "write", testConfig(), client, [writeTool], [], ""));
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(session.messages[1]).toEqual({
+      role: "assistant",
+      content: "[Response cut off while calling write_file]",
+    });
+    expect(session.messages[2].content).toEqual([
+      { type: "text", text: expect.stringContaining("call to write_file was cut off") },
+    ]);
+    expect(session.messages[3]).toEqual({ role: "assistant", content: "Writing it in parts." });
+    expect(loadSession(session.id).messages.every((m) => m.content.length > 0)).toBe(true);
+  });
+
+  it("never saves an empty assistant message when no continuations are left", async () => {
+    const client = mockLLMClient([
+      {
+        toolUses: [{ id: "tu1", name: "write_file", input: { path: "big.txt" } }],
+        stop_reason: "max_tokens",
+      },
+    ]);
+
+    await collectEvents(
+      agentTurn(session, "write", testConfig({ maxContinuations: 0 }), client, [], [], ""),
+    );
+
+    expect(session.messages).toHaveLength(2);
+    expect(session.messages[1]).toEqual({
+      role: "assistant",
+      content: "[Response cut off while calling write_file]",
+    });
+    expect(loadSession(session.id).messages.every((m) => m.content.length > 0)).toBe(true);
+  });
+
+  it("stops after maxContinuations", async () => {
+    const client = mockLLMClient([
+      { text: "one", stop_reason: "max_tokens" },
+      { text: "two", stop_reason: "max_tokens" },
+      { text: "three", stop_reason: "max_tokens" },
+    ]);
+
+    const events = await collectEvents(
+      agentTurn(session, "go", testConfig({ maxContinuations: 1 }), client, [], [], ""),
+    );
+
+    expect(events.filter((e) => e.type === "continuation")).toHaveLength(1);
+    expect(session.messages.at(-1)?.content).toBe("two");
+  });
+});
+
 describe("createLLMClient", () => {
   it("creates a client based on provider config", () => {
     // Just verify it doesn't throw - we can't test the actual API calls
@@ -323,4 +1299,68 @@ describe("createLLMClient", () => {
     expect(openaiClient).toBeDefined();
     expect(openaiClient.stream).toBeTypeOf("function");
   });
+
+  it("creates an openai-compatible client without an API key", () => {
+    const client = createLLMClient(
+      testConfig({
+        provider: "openai-compatible",
+        model: "qwen2.5-coder",
+        baseURL: "http://localhost:8080/v1",
+        headers: { "X-Team": "slimclaw" },
+      }),
+    );
+    expect(client.stream).toBeTypeOf("function");
+  });
+
+  it("accepts fallback models on other providers", () => {
+    vi.stubEnv("OPENAI_API_KEY", "test-openai-key");
+    const client = createLLMClient(
+      testConfig({ apiKey: "test-key", fallbackModels: ["claude-3-5-haiku-latest", "gpt-4o"] }),
+    );
+    expect(client.stream).toBeTypeOf("function");
+    vi.unstubAllEnvs();
+  });
+
+  it("accepts fallback models with their own connection settings", () => {
+    const client = createLLMClient(
+      testConfig({
+        provider: "openai-compatible",
+        model: "llama3.1:8b",
+        baseURL: "http://localhost:11434/v1",
+        fallbackModels: ["qwen2.5:7b", { model: "gpt-4o", provider: "openai", apiKey: "sk-oai" }],
+      }),
+    );
+    expect(client.stream).toBeTypeOf("function");
+  });
+
+  it("creates a mock client without an API key", async () => {
+    const client = createLLMClient(testConfig({ provider: "mock", apiKey: undefined }));
+    const events = await collectEvents(
+      agentTurn(session, "hello", testConfig(), client, [], [], ""),
+    );
+    expect(events.filter((e) => e.type === "text").map((e) => (e as { text: string }).text).join(""))
+      .toBe("Mock response to: hello");
+  });
+
+  it("routes each purpose to its configured model", () => {
+    const routes = createModelRoutes(
+      testConfig({
+        apiKey: "sk-ant",
+        models: { heartbeat: { model: "claude-3-5-haiku-latest" } },
+      }),
+    );
+
+    expect(routes.heartbeat.config.model).toBe("claude-3-5-haiku-latest");
+    expect(routes.heartbeat.client).not.toBe(routes.chat.client);
+    // Purposes without an entry share the top-level client
+    expect(routes.chat.config.model).toBe("claude-sonnet-4-20250514");
+    expect(routes.subagent.client).toBe(routes.chat.client);
+    expect(routes.summarize.client).toBe(routes.chat.client);
+  });
+
+  it("throws for openai-compatible without a baseURL", () => {
+    expect(() => createLLMClient(testConfig({ provider: "openai-compatible" }))).toThrow(
+      "requires a baseURL",
+    );
+  });
 });
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { testConfig } from "./helpers.js";
+import type { Message } from "../src/session.js";
+
+// Replace the streaming messages endpoint of the Anthropic SDK; everything
+// else (error classes used by the retry layer) stays real.
+const mockStream = vi.fn();
+
+vi.mock("@anthropic-ai/sdk", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("@anthropic-ai/sdk")>();
+  class FakeAnthropic extends actual.default {
+    constructor(opts: ConstructorParameters<typeof actual.default>[0]) {
+      super(opts);
+      (this as unknown as { messages: unknown }).messages = { stream: mockStream };
+    }
+  }
+  return { ...actual, default: FakeAnthropic };
+});
+
+const { createLLMClient } = await import("../src/agent.js");
+type StreamEvent = import("../src/agent.js").StreamEvent;
+
+/** A message stream that yields one text delta and then the final message. */
+function fakeStream(usage: Record<string, number>) {
+  return {
+    async *[Symbol.asyncIterator]() {
+      yield { type: "content_block_delta", delta: { type: "text_delta", text: "hello" } };
+    },
+    finalMessage: async () => ({
+      content: [{ type: "text", text: "hello" }],
+      stop_reason: "end_turn",
+      usage,
+    }),
+  };
+}
+
+const TOOLS = [
+  { name: "bash", description: "Run a command", input_schema: { type: "object" } },
+  { name: "read_file", description: "Read a file", input_schema: { type: "object" } },
+];
+
+async function collect(
+  config: Parameters<typeof createLLMClient>[0],
+  messages: Message[] = [{ role: "user", content: "hi" }],
+): Promise<StreamEvent[]> {
+  const client = createLLMClient(config);
+  const events: StreamEvent[] = [];
+  for await (const event of client.stream({
+    model: config.model,
+    system: "You are SlimClaw.",
+    messages,
+    tools: TOOLS,
+    max_tokens: 500,
+    cache: config.promptCaching,
+  })) {
+    events.push(event);
+  }
+  return events;
+}
+
+beforeEach(() => {
+  mockStream.mockReset();
+  mockStream.mockReturnValue(fakeStream({ input_tokens: 10, output_tokens: 5 }));
+});
+
+describe("Anthropic sampling and tool choice", () => {
+  async function send(params: Record<string, unknown>) {
+    const client = createLLMClient(testConfig({ apiKey: "k" }));
+    for await (const _event of client.stream({
+      model: "claude-sonnet-4-20250514",
+      system: "You are SlimClaw.",
+      messages: [{ role: "user", content: "hi" }],
+      tools: TOOLS,
+      max_tokens: 500,
+      ...params,
+    })) {
+      // drain
+    }
+    return mockStream.mock.calls[0][0];
+  }
+
+  it("sends temperature, top_p, stop sequences and tool choice", async () => {
+    const request = await send({
+      temperature: 0,
+      topP: 0.8,
+      stopSequences: ["END"],
+      toolChoice: { name: "bash" },
+    });
+
+    expect(request).toMatchObject({
+      temperature: 0,
+      top_p: 0.8,
+      stop_sequences: ["END"],
+      tool_choice: { type: "tool", name: "bash" },
+    });
+  });
+
+  it("maps auto, none and any tool choices", async () => {
+    expect((await send({ toolChoice: "any" })).tool_choice).toEqual({ type: "any" });
+    mockStream.mockClear();
+    expect((await send({ toolChoice: "none" })).tool_choice).toEqual({ type: "none" });
+  });
+
+  it("omits sampling settings while thinking", async () => {
+    const request = await send({ temperature: 0, topP: 0.5, thinking: { budgetTokens: 1024 } });
+
+    expect(request.thinking).toEqual({ type: "enabled", budget_tokens: 1024 });
+    expect(request.temperature).toBeUndefined();
+    expect(request.top_p).toBeUndefined();
+  });
+
+  it("turns thinking off when a tool is forced", async () => {
+    const request = await send({ toolChoice: "any", thinking: { budgetTokens: 1024 } });
+
+    expect(request.thinking).toBeUndefined();
+    expect(request.max_tokens).toBe(500);
+  });
+});
+
+describe("Anthropic prompt caching", () => {
+  it("marks the tools, system prompt and newest message as cacheable", async () => {
+    await collect(testConfig({ apiKey: "k" }), [
+      { role: "user", content: "list files" },
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "tu1", name: "bash", input: { command: "ls" } }],
+      },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "tu1", content: "a.txt" }] },
+    ]);
+
+    const request = mockStream.mock.calls[0][0];
+    expect(request.tools[0].cache_control).toBeUndefined();
+    expect(request.tools[1].cache_control).toEqual({ type: "ephemeral" });
+    expect(request.system).toEqual([
+      { type: "text", text: "You are SlimClaw.", cache_control: { type: "ephemeral" } },
+    ]);
+    expect(request.messages[0]).toEqual({ role: "user", content: "list files" });
+    expect(request.messages[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "tu1", content: "a.txt", cache_control: { type: "ephemeral" } },
+    ]);
+  });
+
+  it("converts a string message so it can carry a breakpoint", async () => {
+    await collect(testConfig({ apiKey: "k" }));
+
+    expect(mockStream.mock.calls[0][0].messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "hi", cache_control: { type: "ephemeral" } }] },
+    ]);
+  });
+
+  it("sends the prompt unchanged when caching is off", async () => {
+    await collect(testConfig({ apiKey: "k", promptCaching: false }));
+
+    const request = mockStream.mock.calls[0][0];
+    expect(request.system).toBe("You are SlimClaw.");
+    expect(request.tools.every((t: Record<string, unknown>) => !("cache_control" in t))).toBe(true);
+    expect(request.messages).toEqual([{ role: "user", content: "hi" }]);
+  });
+
+  it("reports cache reads and writes in usage", async () => {
+    mockStream.mockReturnValue(
+      fakeStream({
+        input_tokens: 12,
+        output_tokens: 5,
+        cache_read_input_tokens: 3000,
+        cache_creation_input_tokens: 400,
+      }),
+    );
+
+    const events = await collect(testConfig({ apiKey: "k" }));
+
+    expect(events.find((e) => e.type === "usage")).toMatchObject({
+      usage: { inputTokens: 12, outputTokens: 5, cacheReadTokens: 3000, cacheWriteTokens: 400 },
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { TurnBudget, budgetExhaustedNotice } from "../src/budget.js";
+
+const NO_LIMITS = { maxIterations: 0, maxToolCalls: 0, maxTurnSeconds: 0, maxOutputTokens: 0 };
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TurnBudget", () => {
+  it("never trips when every limit is 0", () => {
+    const budget = new TurnBudget(NO_LIMITS);
+    for (let i = 0; i < 1000; i++) {
+      budget.recordIteration();
+      budget.recordToolCall();
+      budget.recordOutputTokens(1000);
+    }
+    expect(budget.exhausted()).toBeNull();
+    expect(budget.canCallTool()).toBe(true);
+  });
+
+  it("trips on iterations", () => {
+    const budget = new TurnBudget({ ...NO_LIMITS, maxIterations: 2 });
+    budget.recordIteration();
+    expect(budget.exhausted()).toBeNull();
+    budget.recordIteration();
+    expect(budget.exhausted()).toBe("iterations");
+  });
+
+  it("trips on tool calls and refuses further calls", () => {
+    const budget = new TurnBudget({ ...NO_LIMITS, maxToolCalls: 1 });
+    expect(budget.canCallTool()).toBe(true);
+    budget.recordToolCall();
+    expect(budget.canCallTool()).toBe(false);
+    expect(budget.exhausted()).toBe("tool_calls");
+  });
+
+  it("trips on output tokens", () => {
+    const budget = new TurnBudget({ ...NO_LIMITS, maxOutputTokens: 100 });
+    budget.recordOutputTokens(60);
+    expect(budget.exhausted()).toBeNull();
+    budget.recordOutputTokens(60);
+    expect(budget.exhausted()).toBe("output_tokens");
+  });
+
+  it("trips on wall-clock time", () => {
+    vi.useFakeTimers();
+    const budget = new TurnBudget({ ...NO_LIMITS, maxTurnSeconds: 10 });
+    vi.advanceTimersByTime(9_000);
+    expect(budget.exhausted()).toBeNull();
+    vi.advanceTimersByTime(2_000);
+    expect(budget.exhausted()).toBe("time");
+    expect(budget.canCallTool()).toBe(false);
+  });
+});
+
+describe("budgetExhaustedNotice", () => {
+  it("names the limit and asks for a summary", () => {
+    const notice = budgetExhaustedNotice("tool_calls");
+    expect(notice).toContain("maximum tool calls");
+    expect(notice).toContain("Summarize");
+  });
+});
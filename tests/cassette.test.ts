@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { tempDir, testConfig } from "./helpers.js";
+import { createLLMClient } from "../src/agent.js";
+import { CassetteClient, CassetteStore, requestKey } from "../src/cassette.js";
+import type { CassetteOptions } from "../src/cassette.js";
+import type { LLMClient, LLMStreamParams, StreamEvent } from "../src/agent.js";
+
+/** Client that answers with a numbered reply and counts its calls. */
+function countingClient(): LLMClient & { calls: number } {
+  const client = {
+    calls: 0,
+    async *stream(_params: LLMStreamParams): AsyncIterable<StreamEvent> {
+      client.calls++;
+      yield { type: "text", text: `reply ${client.calls}` };
+      yield { type: "message_stop", stop_reason: "end_turn" };
+    },
+  };
+  return client;
+}
+
+function cassette(inner: LLMClient, options: CassetteOptions): CassetteClient {
+  return new CassetteClient(inner, new CassetteStore(options));
+}
+
+function request(text: string): LLMStreamParams {
+  return {
+    model: "claude-sonnet-4-20250514",
+    system: "You are SlimClaw.",
+    messages: [{ role: "user", content: text }],
+    tools: [],
+    max_tokens: 100,
+  };
+}
+
+async function collect(client: LLMClient, params: LLMStreamParams): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of client.stream(params)) events.push(event);
+  return events;
+}
+
+describe("requestKey", () => {
+  it("ignores key order and the abort signal", () => {
+    const a = request("hi");
+    const b = { ...request("hi"), signal: new AbortController().signal };
+    const reordered = Object.fromEntries(Object.entries(a).reverse()) as unknown as LLMStreamParams;
+
+    expect(requestKey(b)).toBe(requestKey(a));
+    expect(requestKey(reordered)).toBe(requestKey(a));
+    expect(requestKey(request("bye"))).not.toBe(requestKey(a));
+  });
+});
+
+describe("CassetteClient", () => {
+  let tmp: ReturnType<typeof tempDir>;
+  let path: string;
+
+  beforeEach(() => {
+    tmp = tempDir();
+    path = join(tmp.path, "session.cassette.json");
+  });
+
+  afterEach(() => {
+    tmp.cleanup();
+  });
+
+  it("records calls and replays them without the inner client", async () => {
+    const inner = countingClient();
+    const recorder = cassette(inner, { path, mode: "record" });
+    const first = await collect(recorder, request("hi"));
+    const second = await collect(recorder, request("hi"));
+
+    const saved = JSON.parse(readFileSync(path, "utf-8"));
+    expect(saved.interactions).toHaveLength(2);
+    expect(saved.interactions[0].request.messages).toEqual([{ role: "user", content: "hi" }]);
+
+    // Identical requests replay in recorded order
+    const offline = countingClient();
+    const player = cassette(offline, { path, mode: "replay", strict: true });
+    expect(await collect(player, request("hi"))).toEqual(first);
+    expect(await collect(player, request("hi"))).toEqual(second);
+    expect(offline.calls).toBe(0);
+  });
+
+  it("fails on unknown requests in strict mode", async () => {
+    await collect(cassette(countingClient(), { path, mode: "record" }), request("hi"));
+
+    const player = cassette(countingClient(), { path, mode: "replay", strict: true });
+    await expect(collect(player, request("something else"))).rejects.toThrow(
+      "has no recording for request",
+    );
+  });
+
+  it("records missing requests when not strict", async () => {
+    await collect(cassette(countingClient(), { path, mode: "record" }), request("hi"));
+
+    const inner = countingClient();
+    const player = cassette(inner, { path, mode: "replay" });
+    await collect(player, request("hi"));
+    await collect(player, request("new"));
+
+    expect(inner.calls).toBe(1);
+    expect(JSON.parse(readFileSync(path, "utf-8")).interactions).toHaveLength(2);
+  });
+
+  it("builds a lazy inner client only when a request misses the cassette", async () => {
+    await collect(cassette(countingClient(), { path, mode: "record" }), request("hi"));
+
+    const factory = vi.fn(countingClient);
+    const player = new CassetteClient(factory, new CassetteStore({ path, mode: "replay" }));
+    await collect(player, request("hi"));
+    expect(factory).not.toHaveBeenCalled();
+
+    await collect(player, request("new"));
+    await collect(player, request("newer"));
+    expect(factory).toHaveBeenCalledTimes(1);
+  });
+
+  it("replays an OpenAI cassette without an API key", async () => {
+    await collect(cassette(countingClient(), { path, mode: "record" }), {
+      ...request("hi"),
+      model: "gpt-4o",
+    });
+    vi.stubEnv("OPENAI_API_KEY", undefined);
+    try {
+      const client = createLLMClient(
+        testConfig({
+          provider: "openai",
+          model: "gpt-4o",
+          apiKey: undefined,
+          cassette: { path, mode: "replay", strict: true },
+        }),
+      );
+
+      expect(await collect(client, { ...request("hi"), model: "gpt-4o" })).toEqual([
+        { type: "text", text: "reply 1" },
+        { type: "message_stop", stop_reason: "end_turn" },
+      ]);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("does not record failed calls", async () => {
+    const failing: LLMClient = {
+      async *stream() {
+        throw new Error("boom");
+      },
+    };
+
+    await expect(
+      collect(cassette(failing, { path, mode: "record" }), request("hi")),
+    ).rejects.toThrow("boom");
+    expect(existsSync(path)).toBe(false);
+  });
+});
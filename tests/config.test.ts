@@ -1,8 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { writeFileSync } from "fs";
 import { join } from "path";
-import { loadConfig } from "../src/config.js";
-import { tempDir } from "./helpers.js";
+import { loadConfig, configForPurpose, configForFallback } from "../src/config.js";
+import { tempDir, testConfig } from "./helpers.js";
 
 describe("loadConfig", () => {
   let tmp: ReturnType<typeof tempDir>;
@@ -25,6 +25,21 @@ describe("loadConfig", () => {
     expect(config.host).toBe("127.0.0.1");
     expect(config.maxHistoryTurns).toBe(50);
     expect(config.maxToolResultChars).toBe(100_000);
+    expect(config.limits).toEqual({
+      maxIterations: 25,
+      maxToolCalls: 100,
+      maxTurnSeconds: 600,
+      maxOutputTokens: 0,
+    });
+    expect(config.retry).toEqual({ maxRetries: 3, initialDelayMs: 1000, maxDelayMs: 30_000 });
+    expect(config.fallbackModels).toEqual([]);
+    expect(config.models).toEqual({});
+    expect(config.sampling).toEqual({});
+    expect(config.bootstrapMaxChars).toBe(20_000);
+    expect(config.approval).toEqual({ tools: ["bash", "write_file", "edit_file"], unattended: "deny" });
+    expect(config.permissions).toEqual({ allow: [], ask: [], deny: [] });
+    expect(config.workspace).toEqual({ root: ".", readRoots: [] });
+    expect(config.shell).toEqual({ persistent: true, idleMinutes: 30 });
     expect(config.skillsDir).toBe("./skills");
     expect(config.mcp).toEqual({ servers: {} });
     expect(config.memoryDir).toBe("./memory");
@@ -45,6 +60,16 @@ describe("loadConfig", () => {
     expect(config.maxTokens).toBe(4096);
   });
 
+  it("rejects permission rules with an invalid regex", () => {
+    const configPath = join(tmp.path, "slimclaw.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify({ permissions: { deny: [{ tool: "bash", commandPattern: "[" }] } }),
+    );
+
+    expect(() => loadConfig(configPath)).toThrow("Invalid commandPattern in permissions.deny[0]");
+  });
+
   it("deep merges nested objects (mcp, heartbeat)", () => {
     const configPath = join(tmp.path, "slimclaw.json");
     writeFileSync(
@@ -65,6 +90,16 @@ describe("loadConfig", () => {
     expect(config.mcp.servers.test).toEqual({ command: "node", args: ["server.js"] });
   });
 
+  it("deep merges limits", () => {
+    const configPath = join(tmp.path, "slimclaw.json");
+    writeFileSync(configPath, JSON.stringify({ limits: { maxToolCalls: 5 } }));
+
+    const config = loadConfig(configPath);
+
+    expect(config.limits.maxToolCalls).toBe(5);
+    expect(config.limits.maxIterations).toBe(25);
+  });
+
   describe("provider detection", () => {
     it("detects anthropic from claude model name", () => {
       const configPath = join(tmp.path, "slimclaw.json");
@@ -114,6 +149,18 @@ describe("loadConfig", () => {
       expect(config.provider).toBe("anthropic");
     });
 
+    it("detects openai-compatible when a baseURL is set", () => {
+      const configPath = join(tmp.path, "slimclaw.json");
+      writeFileSync(
+        configPath,
+        JSON.stringify({ model: "llama3.1:8b", baseURL: "http://localhost:11434/v1" }),
+      );
+
+      const config = loadConfig(configPath);
+      expect(config.provider).toBe("openai-compatible");
+      expect(config.baseURL).toBe("http://localhost:11434/v1");
+    });
+
     it("does not override explicitly set provider", () => {
       const configPath = join(tmp.path, "slimclaw.json");
       writeFileSync(configPath, JSON.stringify({ provider: "openai", model: "claude-sonnet-4-20250514" }));
@@ -160,6 +207,30 @@ describe("loadConfig", () => {
       expect(config.apiKey).toBe("sk-oai-env");
     });
 
+    it("does not send OPENAI_API_KEY to an openai-compatible server", () => {
+      process.env.OPENAI_API_KEY = "sk-oai-env";
+      const configPath = join(tmp.path, "slimclaw.json");
+      writeFileSync(
+        configPath,
+        JSON.stringify({ model: "llama3.1:8b", baseURL: "http://localhost:11434/v1" }),
+      );
+
+      const config = loadConfig(configPath);
+      expect(config.provider).toBe("openai-compatible");
+      expect(config.apiKey).toBeUndefined();
+    });
+
+    it("uses an apiKey configured for an openai-compatible server", () => {
+      process.env.OPENAI_API_KEY = "sk-oai-env";
+      const configPath = join(tmp.path, "slimclaw.json");
+      writeFileSync(
+        configPath,
+        JSON.stringify({ baseURL: "https://llm.example.com/v1", apiKey: "sk-example" }),
+      );
+
+      expect(loadConfig(configPath).apiKey).toBe("sk-example");
+    });
+
     it("returns undefined when no apiKey and no env var", () => {
       delete process.env.ANTHROPIC_API_KEY;
       delete process.env.OPENAI_API_KEY;
@@ -185,3 +256,99 @@ describe("loadConfig", () => {
     expect(() => loadConfig(configPath)).toThrow();
   });
 });
+
+describe("configForPurpose", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("returns the top-level config for purposes without an entry", () => {
+    const config = testConfig();
+    expect(configForPurpose(config, "heartbeat")).toBe(config);
+  });
+
+  it("inherits connection settings on the same provider", () => {
+    const config = testConfig({
+      apiKey: "sk-ant",
+      headers: { "x-team": "a" },
+      models: { heartbeat: { model: "claude-3-5-haiku-latest", maxTokens: 512 } },
+    });
+
+    const heartbeat = configForPurpose(config, "heartbeat");
+
+    expect(heartbeat.model).toBe("claude-3-5-haiku-latest");
+    expect(heartbeat.provider).toBe("anthropic");
+    expect(heartbeat.apiKey).toBe("sk-ant");
+    expect(heartbeat.headers).toEqual({ "x-team": "a" });
+    expect(heartbeat.maxTokens).toBe(512);
+  });
+
+  it("resolves the key from the environment for another provider", () => {
+    vi.stubEnv("OPENAI_API_KEY", "sk-openai");
+    const config = testConfig({
+      apiKey: "sk-ant",
+      headers: { "x-team": "a" },
+      models: { subagent: { model: "gpt-4o-mini" } },
+    });
+
+    const subagent = configForPurpose(config, "subagent");
+
+    expect(subagent.provider).toBe("openai");
+    expect(subagent.apiKey).toBe("sk-openai");
+    expect(subagent.headers).toBeUndefined();
+    expect(subagent.maxTokens).toBe(config.maxTokens);
+  });
+});
+
+describe("configForFallback", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("keeps a bare name on the primary's openai-compatible server", () => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "sk-ant-env");
+    const config = testConfig({
+      provider: "openai-compatible",
+      model: "llama3.1:8b",
+      baseURL: "http://localhost:11434/v1",
+    });
+
+    const fallback = configForFallback(config, "qwen2.5:7b");
+
+    expect(fallback.provider).toBe("openai-compatible");
+    expect(fallback.model).toBe("qwen2.5:7b");
+    expect(fallback.baseURL).toBe("http://localhost:11434/v1");
+    expect(fallback.apiKey).toBeUndefined();
+  });
+
+  it("infers the provider of a bare name otherwise", () => {
+    vi.stubEnv("OPENAI_API_KEY", "sk-openai");
+    const config = testConfig({ apiKey: "sk-ant" });
+
+    expect(configForFallback(config, "claude-3-5-haiku-latest")).toMatchObject({
+      provider: "anthropic",
+      apiKey: "sk-ant",
+    });
+    expect(configForFallback(config, "gpt-4o")).toMatchObject({
+      provider: "openai",
+      apiKey: "sk-openai",
+    });
+  });
+
+  it("uses the connection settings of a fallback object", () => {
+    const config = testConfig({ apiKey: "sk-ant" });
+
+    const fallback = configForFallback(config, {
+      model: "qwen2.5:7b",
+      baseURL: "http://gpu-box:8000/v1",
+      apiKey: "sk-box",
+    });
+
+    expect(fallback).toMatchObject({
+      provider: "openai-compatible",
+      model: "qwen2.5:7b",
+      baseURL: "http://gpu-box:8000/v1",
+      apiKey: "sk-box",
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { mkdtempSync, rmSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
 import type { SlimClawConfig } from "../src/config.js";
+import { DEFAULT_PRICING } from "../src/usage.js";
 
 // Create a temp dir for a test, returns path + cleanup function
 export function tempDir(): { path: string; cleanup: () => void } {
@@ -15,14 +16,27 @@ export function testConfig(overrides?: Partial<SlimClawConfig>): SlimClawConfig
     provider: "anthropic",
     model: "claude-sonnet-4-20250514",
     maxTokens: 1024,
+    sampling: {},
+    promptCaching: true,
+    pricing: DEFAULT_PRICING,
+    retry: { maxRetries: 0, initialDelayMs: 0, maxDelayMs: 0 },
+    fallbackModels: [],
+    models: {},
     port: 0,
     host: "127.0.0.1",
     maxHistoryTurns: 50,
     maxToolResultChars: 100_000,
+    maxContinuations: 3,
+    limits: { maxIterations: 25, maxToolCalls: 100, maxTurnSeconds: 600, maxOutputTokens: 0 },
+    approval: { tools: [], unattended: "allow" },
+    permissions: { allow: [], ask: [], deny: [] },
+    workspace: { root: ".", readRoots: [] },
+    shell: { persistent: true, idleMinutes: 30 },
     skillsDir: "./skills",
     mcp: { servers: {} },
     memoryDir: "./memory",
     memoryFile: "MEMORY.md",
+    bootstrapMaxChars: 20_000,
     heartbeat: { enabled: false, intervalMinutes: 30 },
     ...overrides,
   };
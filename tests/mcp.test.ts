@@ -70,6 +70,20 @@ describe("startMCPServer", () => {
     expect(mockConnect).toHaveBeenCalledOnce();
   });
 
+  it("marks read-only tools as concurrent", async () => {
+    mockListTools.mockResolvedValue({
+      tools: [
+        { name: "lookup", inputSchema: {}, annotations: { readOnlyHint: true } },
+        { name: "write", inputSchema: {} },
+      ],
+    });
+
+    const server = await startMCPServer("docs", { command: "node" });
+
+    expect(server.tools[0].concurrent).toBe(true);
+    expect(server.tools[1].concurrent).toBe(false);
+  });
+
   it("prefixes tool names with mcp_{serverName}_{toolName}", async () => {
     mockListTools.mockResolvedValue({
       tools: [
@@ -143,6 +157,21 @@ describe("startMCPServer", () => {
     expect(result).toBe(JSON.stringify({ type: "image", data: "base64stuff" }));
   });
 
+  it("tool execute flags results the server marks as errors", async () => {
+    mockListTools.mockResolvedValue({
+      tools: [{ name: "query", description: "Run a query", inputSchema: {} }],
+    });
+    mockCallTool.mockResolvedValue({
+      content: [{ type: "text", text: "syntax error at line 1" }],
+      isError: true,
+    });
+
+    const server = await startMCPServer("db", { command: "db-server" });
+    const result = await server.tools[0].execute({});
+
+    expect(result).toEqual({ content: "syntax error at line 1", isError: true });
+  });
+
   it("discovers zero tools from a server with none", async () => {
     mockListTools.mockResolvedValue({ tools: [] });
 
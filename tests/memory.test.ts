@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import Database from "better-sqlite3";
-import { writeFileSync, mkdirSync, readFileSync } from "fs";
+import { writeFileSync, mkdirSync, readFileSync, existsSync, symlinkSync } from "fs";
 import { join } from "path";
 import { tempDir } from "./helpers.js";
 import { MemoryStore, createMemoryTools } from "../src/memory.js";
@@ -100,6 +100,19 @@ describe("MemoryStore", () => {
       expect(content).toContain("Custom memory.");
     });
 
+    it("refuses paths outside the memory directory", () => {
+      expect(() => store.save("Escaped.", "../escaped.md")).toThrow("Access denied");
+      expect(existsSync(join(tmp.path, "escaped.md"))).toBe(false);
+    });
+
+    it("refuses symlinks that lead out of the memory directory", () => {
+      const outside = join(tmp.path, "outside");
+      mkdirSync(outside);
+      symlinkSync(outside, join(memoryDir, "link"));
+      expect(() => store.save("Escaped.", "link/notes.md")).toThrow("Access denied");
+      expect(existsSync(join(outside, "notes.md"))).toBe(false);
+    });
+
     it("appends to existing file", () => {
       store.save("First entry.");
       store.save("Second entry.");
@@ -234,6 +247,14 @@ describe("createMemoryTools", () => {
     expect(result).toContain("Paris");
   });
 
+  it("memory_save reports paths outside the memory directory as errors", async () => {
+    const saveTool = createMemoryTools(store).find((t) => t.definition.name === "memory_save")!;
+
+    const result = await saveTool.execute({ content: "x", path: "../../etc/profile" });
+
+    expect(result).toMatchObject({ isError: true });
+  });
+
   it("memory_search returns no-match message for empty results", async () => {
     const tools = createMemoryTools(store);
     const searchTool = tools.find(
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import { tempDir } from "./helpers.js";
+import { MockClient, loadMockScript, parseMockScript } from "../src/mock.js";
+import type { MockScript } from "../src/mock.js";
+import type { StreamEvent } from "../src/agent.js";
+import type { Message } from "../src/session.js";
+
+async function collect(client: MockClient, messages: Message[]): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of client.stream({
+    model: "mock",
+    system: "",
+    messages,
+    tools: [],
+    max_tokens: 100,
+  })) {
+    events.push(event);
+  }
+  return events;
+}
+
+function textOf(events: StreamEvent[]): string {
+  return events.map((e) => (e.type === "text" ? e.text : "")).join("");
+}
+
+const SCRIPT: MockScript = {
+  rules: [
+    {
+      match: "list files",
+      responses: [
+        { text: "Checking.", toolCalls: [{ name: "bash", input: { command: "ls" } }] },
+        { text: "Found a.txt." },
+      ],
+    },
+    { match: "^long", text: "Partial", stopReason: "max_tokens" },
+    { text: "Fallback answer." },
+  ],
+};
+
+describe("MockClient", () => {
+  it("streams text and tool calls from the matching rule", async () => {
+    const events = await collect(new MockClient(SCRIPT), [
+      { role: "user", content: "Please LIST FILES here" },
+    ]);
+
+    expect(textOf(events)).toBe("Checking.");
+    expect(events.filter((e) => e.type === "tool_use")).toEqual([
+      { type: "tool_use", id: "mock_tool_1", name: "bash", input: { command: "ls" } },
+    ]);
+    expect(events.at(-1)).toEqual({ type: "message_stop", stop_reason: "tool_use" });
+  });
+
+  it("advances through responses on later round-trips of the turn", async () => {
+    const events = await collect(new MockClient(SCRIPT), [
+      { role: "user", content: "list files" },
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "mock_tool_1", name: "bash", input: { command: "ls" } }],
+      },
+      { role: "user", content: [{ type: "tool_result", tool_use_id: "mock_tool_1", content: "a.txt" }] },
+    ]);
+
+    expect(textOf(events)).toBe("Found a.txt.");
+    expect(events.at(-1)).toEqual({ type: "message_stop", stop_reason: "end_turn" });
+  });
+
+  it("uses scripted stop reasons and falls through to rules without a match", async () => {
+    const client = new MockClient(SCRIPT);
+
+    const long = await collect(client, [{ role: "user", content: "long essay" }]);
+    expect(long.at(-1)).toEqual({ type: "message_stop", stop_reason: "max_tokens" });
+
+    const other = await collect(client, [{ role: "user", content: "hello" }]);
+    expect(textOf(other)).toBe("Fallback answer.");
+  });
+
+  it("echoes the prompt when no script is given", async () => {
+    const events = await collect(new MockClient(), [{ role: "user", content: "ping" }]);
+    expect(textOf(events)).toBe("Mock response to: ping");
+  });
+});
+
+describe("loadMockScript", () => {
+  let tmp: ReturnType<typeof tempDir>;
+
+  beforeEach(() => {
+    tmp = tempDir();
+  });
+
+  afterEach(() => {
+    tmp.cleanup();
+  });
+
+  it("loads YAML scripts", () => {
+    const path = join(tmp.path, "script.yaml");
+    writeFileSync(
+      path,
+      [
+        "rules:",
+        '  - match: "weather"',
+        "    toolCalls:",
+        "      - name: fetch_url",
+        "        input: { url: https://example.com }",
+      ].join("\n"),
+    );
+
+    expect(loadMockScript(path)).toEqual({
+      rules: [
+        {
+          match: "weather",
+          toolCalls: [{ name: "fetch_url", input: { url: "https://example.com" } }],
+        },
+      ],
+    });
+  });
+
+  it("loads JSON scripts", () => {
+    const path = join(tmp.path, "script.json");
+    writeFileSync(path, JSON.stringify(SCRIPT));
+
+    expect(loadMockScript(path)).toEqual(SCRIPT);
+  });
+
+  it("rejects scripts without rules", () => {
+    expect(() => parseMockScript("responses: []", "yaml")).toThrow('"rules" array');
+  });
+
+  it("names the file when loading fails", () => {
+    expect(() => loadMockScript("/nonexistent/script.json")).toThrow(
+      "Failed to load mock script /nonexistent/script.json",
+    );
+  });
+});
@@ -0,0 +1,371 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { testConfig } from "./helpers.js";
+import type { Message } from "../src/session.js";
+
+// Replace the chat completions endpoint of the OpenAI SDK; everything else
+// (error classes used by the retry layer) stays real.
+const mockCreate = vi.fn();
+
+vi.mock("openai", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("openai")>();
+  class FakeOpenAI extends actual.default {
+    constructor(opts: ConstructorParameters<typeof actual.default>[0]) {
+      super(opts);
+      (this as unknown as { chat: unknown }).chat = { completions: { create: mockCreate } };
+    }
+  }
+  return { ...actual, default: FakeOpenAI };
+});
+
+const { createLLMClient } = await import("../src/agent.js");
+type StreamEvent = import("../src/agent.js").StreamEvent;
+type ToolDefinition = import("../src/tools.js").Tool["definition"];
+
+/** Build an async iterable of chat completion chunks. */
+async function* chunks(items: unknown[]) {
+  for (const item of items) yield item;
+}
+
+async function collect(
+  config: Parameters<typeof createLLMClient>[0],
+  messages: Message[] = [{ role: "user", content: "hi" }],
+  tools: ToolDefinition[] = [],
+): Promise<StreamEvent[]> {
+  const client = createLLMClient(config);
+  const events: StreamEvent[] = [];
+  for await (const event of client.stream({
+    model: config.model,
+    system: "You are SlimClaw.",
+    messages,
+    tools,
+    max_tokens: 500,
+    reasoningEffort: config.reasoningEffort,
+  })) {
+    events.push(event);
+  }
+  return events;
+}
+
+beforeEach(() => {
+  mockCreate.mockReset();
+  mockCreate.mockResolvedValue(
+    chunks([
+      { choices: [{ delta: { content: "hello" }, finish_reason: null }] },
+      { choices: [{ delta: {}, finish_reason: "stop" }] },
+    ]),
+  );
+});
+
+describe("OpenAI request shape", () => {
+  it("sends max_tokens and a system message to chat models", async () => {
+    await collect(testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }));
+
+    const body = mockCreate.mock.calls[0][0];
+    expect(body.max_tokens).toBe(500);
+    expect(body.max_completion_tokens).toBeUndefined();
+    expect(body.messages[0]).toEqual({ role: "system", content: "You are SlimClaw." });
+    expect(body.reasoning_effort).toBeUndefined();
+  });
+
+  it("sends max_completion_tokens, a developer message and effort to reasoning models", async () => {
+    await collect(
+      testConfig({ provider: "openai", model: "o3-mini", apiKey: "k", reasoningEffort: "high" }),
+    );
+
+    const body = mockCreate.mock.calls[0][0];
+    expect(body.max_completion_tokens).toBe(500);
+    expect(body.max_tokens).toBeUndefined();
+    expect(body.messages[0]).toEqual({ role: "developer", content: "You are SlimClaw." });
+    expect(body.reasoning_effort).toBe("high");
+  });
+
+  it("falls back to a user message for o1-mini", async () => {
+    await collect(
+      testConfig({ provider: "openai", model: "o1-mini", apiKey: "k", reasoningEffort: "low" }),
+    );
+
+    const body = mockCreate.mock.calls[0][0];
+    expect(body.messages[0].role).toBe("user");
+    expect(body.reasoning_effort).toBeUndefined();
+  });
+
+  it("reports usage including reasoning tokens", async () => {
+    mockCreate.mockResolvedValue(
+      chunks([
+        { choices: [{ delta: { content: "hi" }, finish_reason: "stop" }] },
+        {
+          choices: [],
+          usage: {
+            prompt_tokens: 100,
+            completion_tokens: 300,
+            prompt_tokens_details: { cached_tokens: 40 },
+            completion_tokens_details: { reasoning_tokens: 250 },
+          },
+        },
+      ]),
+    );
+
+    const events = await collect(testConfig({ provider: "openai", model: "o4-mini", apiKey: "k" }));
+
+    expect(events).toContainEqual({
+      type: "usage",
+      model: "o4-mini",
+      usage: {
+        inputTokens: 60,
+        outputTokens: 300,
+        cacheReadTokens: 40,
+        cacheWriteTokens: 0,
+        reasoningTokens: 250,
+      },
+    });
+  });
+});
+
+describe("OpenAI sampling and tool choice", () => {
+  const tools = [{ name: "bash", description: "Run", input_schema: { type: "object" } }];
+
+  async function send(model: string, params: Record<string, unknown>) {
+    const client = createLLMClient(testConfig({ provider: "openai", model, apiKey: "k" }));
+    for await (const _event of client.stream({
+      model,
+      system: "You are SlimClaw.",
+      messages: [{ role: "user", content: "hi" }],
+      tools,
+      max_tokens: 500,
+      ...params,
+    })) {
+      // drain
+    }
+    return mockCreate.mock.calls[0][0];
+  }
+
+  it("sends temperature, top_p, stop and a forced function", async () => {
+    const request = await send("gpt-4o", {
+      temperature: 0,
+      topP: 0.8,
+      stopSequences: ["END"],
+      toolChoice: { name: "bash" },
+    });
+
+    expect(request).toMatchObject({
+      temperature: 0,
+      top_p: 0.8,
+      stop: ["END"],
+      tool_choice: { type: "function", function: { name: "bash" } },
+    });
+  });
+
+  it('maps "any" to "required"', async () => {
+    expect((await send("gpt-4o", { toolChoice: "any" })).tool_choice).toBe("required");
+  });
+
+  it("skips temperature, top_p and stop for reasoning models", async () => {
+    const request = await send("o3-mini", { temperature: 0, topP: 0.5, stopSequences: ["END"] });
+
+    expect(request.temperature).toBeUndefined();
+    expect(request.top_p).toBeUndefined();
+    expect(request.stop).toBeUndefined();
+  });
+});
+
+describe("OpenAI stop reasons", () => {
+  it("maps finish_reason length to max_tokens", async () => {
+    mockCreate.mockResolvedValue(
+      chunks([
+        { choices: [{ delta: { content: "partial" }, finish_reason: null }] },
+        { choices: [{ delta: {}, finish_reason: "length" }] },
+      ]),
+    );
+
+    const events = await collect(testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }));
+
+    expect(events.at(-1)).toEqual({ type: "message_stop", stop_reason: "max_tokens" });
+  });
+});
+
+describe("OpenAI tool call arguments", () => {
+  function toolCallChunks(args: string) {
+    return chunks([
+      {
+        choices: [
+          {
+            delta: {
+              tool_calls: [{ index: 0, id: "call_1", function: { name: "write_file", arguments: "" } }],
+            },
+            finish_reason: null,
+          },
+        ],
+      },
+      {
+        choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: args } }] }, finish_reason: null }],
+      },
+      { choices: [{ delta: {}, finish_reason: "tool_calls" }] },
+    ]);
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("repairs malformed arguments and logs the raw text", async () => {
+    mockCreate.mockResolvedValue(toolCallChunks('{"path": "a.txt", "content": "hi",}'));
+
+    const events = await collect(testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }));
+
+    expect(events.find((e) => e.type === "tool_use")).toEqual({
+      type: "tool_use",
+      id: "call_1",
+      name: "write_file",
+      input: { path: "a.txt", content: "hi" },
+    });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"content": "hi",}'));
+  });
+
+  it("flags arguments that cannot be repaired", async () => {
+    mockCreate.mockResolvedValue(toolCallChunks("path=a.txt"));
+
+    const events = await collect(testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }));
+
+    expect(events.find((e) => e.type === "tool_use")).toEqual({
+      type: "tool_use",
+      id: "call_1",
+      name: "write_file",
+      input: {},
+      inputError: "arguments are not valid JSON",
+    });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("path=a.txt"));
+  });
+  it("refuses arguments cut off inside a required property", async () => {
+    mockCreate.mockResolvedValue(toolCallChunks('{"path": "a.txt", "content": "hello wor'));
+    const writeFile: ToolDefinition = {
+      name: "write_file",
+      description: "Write a file",
+      input_schema: { type: "object", required: ["path", "content"] },
+    };
+
+    const events = await collect(
+      testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }),
+      undefined,
+      [writeFile],
+    );
+
+    expect(events.find((e) => e.type === "tool_use")).toEqual({
+      type: "tool_use",
+      id: "call_1",
+      name: "write_file",
+      input: {},
+      inputError: "arguments were cut off",
+    });
+  });
+});
+
+describe("OpenAI message translation", () => {
+  const image = {
+    type: "image" as const,
+    source: { type: "base64" as const, media_type: "image/png", data: "AAAA" },
+  };
+
+  it("converts user images and PDFs to content parts", async () => {
+    await collect(testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }), [
+      {
+        role: "user",
+        content: [
+          image,
+          {
+            type: "document",
+            title: "report.pdf",
+            source: { type: "base64", media_type: "application/pdf", data: "JVBERi0=" },
+          },
+          { type: "text", text: "Compare these" },
+        ],
+      },
+    ]);
+
+    const messages = mockCreate.mock.calls[0][0].messages;
+    expect(messages[1]).toEqual({
+      role: "user",
+      content: [
+        { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+        {
+          type: "file",
+          file: { filename: "report.pdf", file_data: "data:application/pdf;base64,JVBERi0=" },
+        },
+        { type: "text", text: "Compare these" },
+      ],
+    });
+  });
+
+  it("marks failed tool results as errors in the tool message", async () => {
+    await collect(testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }), [
+      { role: "user", content: "lint" },
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "call_1", name: "lint", input: {} }],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "call_1", content: "3 problems", is_error: true }],
+      },
+    ]);
+
+    expect(mockCreate.mock.calls[0][0].messages[3]).toEqual({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "Error: 3 problems",
+    });
+  });
+
+  it("moves images from tool results into a follow-up user message", async () => {
+    await collect(testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }), [
+      { role: "user", content: "read it" },
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "call_1", name: "read_file", input: { path: "a.png" } }],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "call_1", content: [image] }],
+      },
+    ]);
+
+    const messages = mockCreate.mock.calls[0][0].messages;
+    expect(messages[3]).toEqual({
+      role: "tool",
+      tool_call_id: "call_1",
+      content: "[image: image/png]",
+    });
+    expect(messages[4]).toEqual({
+      role: "user",
+      content: [{ type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } }],
+    });
+  });
+
+  it("drops thinking blocks from assistant messages", async () => {
+    await collect(testConfig({ provider: "openai", model: "gpt-4o", apiKey: "k" }), [
+      { role: "user", content: "q1" },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "hmm", signature: "sig" },
+          { type: "text", text: "a1" },
+        ],
+      },
+      {
+        role: "assistant",
+        content: [{ type: "redacted_thinking", data: "xyz" }],
+      },
+      { role: "user", content: "q2" },
+    ]);
+
+    const messages = mockCreate.mock.calls[0][0].messages;
+    expect(messages.slice(1)).toEqual([
+      { role: "user", content: "q1" },
+      { role: "assistant", content: "a1" },
+      { role: "user", content: "q2" },
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from "vitest";
+import { writeFileSync } from "fs";
+import { join } from "path";
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  promptVariables,
+  renderTemplate,
+  loadPromptTemplate,
+  loadBootstrapFiles,
+} from "../src/prompt.js";
+import type { Tool } from "../src/tools.js";
+import { tempDir } from "./helpers.js";
+
+const bash: Tool = {
+  definition: { name: "bash", description: "Run a shell command", input_schema: { type: "object" } },
+  execute: async () => "",
+};
+
+describe("renderTemplate", () => {
+  it("substitutes known placeholders and keeps unknown ones", () => {
+    expect(renderTemplate("Today is {{date}}. {{ cwd }} {{nope}}", { date: "2026-01-02", cwd: "/w" }))
+      .toBe("Today is 2026-01-02. /w {{nope}}");
+  });
+
+  it("collapses blank lines left by empty sections", () => {
+    expect(renderTemplate("A\n\n{{x}}\n\n{{y}}\n\nB\n", { x: "", y: "" })).toBe("A\n\nB");
+  });
+});
+
+describe("promptVariables", () => {
+  it("describes the runtime environment", () => {
+    const vars = promptVariables({
+      model: "gpt-4o",
+      skills: [],
+      tools: [bash],
+      memoryContext: "",
+      now: new Date(2026, 0, 2, 9, 5),
+    });
+
+    expect(vars.date).toBe("2026-01-02");
+    expect(vars.time).toBe("09:05");
+    expect(vars.timezone).toBeTruthy();
+    expect(vars.os).toContain(process.arch);
+    expect(vars.cwd).toBe(process.cwd());
+    expect(vars.model).toBe("gpt-4o");
+    expect(vars.tools).toBe("## Available Tools\n- bash: Run a shell command");
+    expect(vars.memory).toBe("");
+    expect(vars.skills).toBe("");
+  });
+});
+
+describe("loadPromptTemplate", () => {
+  it("returns the default layout without a path", () => {
+    expect(loadPromptTemplate()).toBe(DEFAULT_PROMPT_TEMPLATE);
+  });
+
+  it("reads a template file", () => {
+    const dir = tempDir();
+    const path = join(dir.path, "prompt.md");
+    writeFileSync(path, "Custom {{os}}");
+    expect(loadPromptTemplate(path)).toBe("Custom {{os}}");
+    dir.cleanup();
+  });
+
+  it("falls back to the default when the file is missing", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(loadPromptTemplate("/nonexistent/prompt.md")).toBe(DEFAULT_PROMPT_TEMPLATE);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe("loadBootstrapFiles", () => {
+  it("reads the files present in prompt order", () => {
+    const dir = tempDir();
+    writeFileSync(join(dir.path, "USER.md"), "Name: Ada\n");
+    writeFileSync(join(dir.path, "SOUL.md"), "Dry wit.");
+    writeFileSync(join(dir.path, "TOOLS.md"), "   \n");
+
+    const files = loadBootstrapFiles(dir.path, 0);
+
+    expect(files.map((f) => [f.name, f.content])).toEqual([
+      ["SOUL.md", "Dry wit."],
+      ["USER.md", "Name: Ada"],
+    ]);
+    expect(files[0].path).toBe(join(dir.path, "SOUL.md"));
+    dir.cleanup();
+  });
+
+  it("caps each file and marks it truncated", () => {
+    const dir = tempDir();
+    writeFileSync(join(dir.path, "AGENTS.md"), "x".repeat(50));
+
+    const [file] = loadBootstrapFiles(dir.path, 10);
+
+    expect(file.content).toBe("x".repeat(10));
+    expect(file.truncated).toBe(true);
+    dir.cleanup();
+  });
+
+  it("renders a section with file paths and a truncation notice", () => {
+    const vars = promptVariables({
+      model: "m",
+      skills: [],
+      tools: [],
+      memoryContext: "",
+      bootstrapFiles: [
+        { name: "SOUL.md", title: "Persona", path: "memory/SOUL.md", content: "Calm.", truncated: false },
+        { name: "USER.md", title: "About the User", path: "memory/USER.md", content: "Ad", truncated: true },
+      ],
+    });
+
+    expect(vars.bootstrap).toContain("## Workspace Files");
+    expect(vars.bootstrap).toContain("### Persona (memory/SOUL.md)\nCalm.");
+    expect(vars.bootstrap).toContain("### About the User (memory/USER.md)\nAd\n[... truncated");
+  });
+});
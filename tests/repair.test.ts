@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { parseToolArguments } from "../src/repair.js";
+
+describe("parseToolArguments", () => {
+  it("parses valid JSON without repair", () => {
+    expect(parseToolArguments('{"path": "a.txt"}')).toEqual({
+      ok: true,
+      value: { path: "a.txt" },
+      repaired: false,
+    });
+  });
+
+  it("treats empty text as no arguments", () => {
+    expect(parseToolArguments("")).toEqual({ ok: true, value: {}, repaired: false });
+  });
+
+  it("removes trailing commas", () => {
+    expect(parseToolArguments('{"files": ["a", "b",], "force": true,}')).toEqual({
+      ok: true,
+      value: { files: ["a", "b"], force: true },
+      repaired: true,
+    });
+  });
+
+  it("escapes raw newlines inside strings", () => {
+    expect(parseToolArguments('{"content": "line one\nline two"}')).toMatchObject({
+      ok: true,
+      value: { content: "line one\nline two" },
+    });
+  });
+
+  it("closes objects and arrays after complete values", () => {
+    expect(parseToolArguments('{"opts": {"depth": 2, "tags": ["x"')).toMatchObject({
+      ok: true,
+      value: { opts: { depth: 2, tags: ["x"] } },
+    });
+    expect(parseToolArguments('{"path": "a.txt", "force": true,')).toMatchObject({
+      ok: true,
+      value: { path: "a.txt", force: true },
+    });
+  });
+
+  it("never completes a value that was cut off", () => {
+    const schema = { type: "object", required: ["command"] };
+    expect(parseToolArguments('{"command": "rm -rf /tmp/build/cac', schema)).toEqual({
+      ok: false,
+      error: "arguments were cut off",
+    });
+    expect(
+      parseToolArguments('{"path": "a.txt", "content": "hello wor', {
+        required: ["path", "content"],
+      }),
+    ).toEqual({ ok: false, error: "arguments were cut off" });
+  });
+
+  it("drops a cut-off optional member", () => {
+    const schema = { type: "object", required: ["path"] };
+    expect(parseToolArguments('{"path": "a.txt", "limit": ', schema)).toMatchObject({
+      ok: true,
+      value: { path: "a.txt" },
+    });
+    expect(parseToolArguments('{"path": "a.txt", "limit": 10', schema)).toEqual({
+      ok: true,
+      value: { path: "a.txt" },
+      repaired: true,
+    });
+    expect(parseToolArguments('{"path": "a.txt", "lim', schema)).toMatchObject({
+      ok: true,
+      value: { path: "a.txt" },
+    });
+    expect(parseToolArguments('{"path": "a.txt", "force": tr', schema)).toMatchObject({
+      ok: true,
+      value: { path: "a.txt" },
+    });
+  });
+
+  it("does not cut values inside nested objects or arrays", () => {
+    expect(parseToolArguments('{"command": "ls", "args": ["-l", "/tm')).toEqual({
+      ok: false,
+      error: "arguments are not valid JSON",
+    });
+  });
+
+  it("fails on text that is not an object", () => {
+    expect(parseToolArguments('["a"]')).toEqual({
+      ok: false,
+      error: "arguments must be a JSON object",
+    });
+    expect(parseToolArguments("not json at all")).toEqual({
+      ok: false,
+      error: "arguments are not valid JSON",
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from "vitest";
+import { RetryingClient, isRetryable, retryAfterMs, backoffDelay } from "../src/retry.js";
+import type { LLMClient, StreamEvent } from "../src/agent.js";
+
+const OPTIONS = { maxRetries: 2, initialDelayMs: 100, maxDelayMs: 1000 };
+
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+/** A client that fails with the given errors, then streams "ok". */
+function flakyClient(errors: unknown[], seenModels: string[] = []): LLMClient {
+  let call = 0;
+  return {
+    async *stream(params): AsyncIterable<StreamEvent> {
+      seenModels.push(params.model);
+      const err = errors[call++];
+      if (err) throw err;
+      yield { type: "text", text: "ok" };
+      yield {
+        type: "usage",
+        usage: { inputTokens: 1, outputTokens: 1, cacheReadTokens: 0, cacheWriteTokens: 0 },
+      };
+      yield { type: "message_stop", stop_reason: "end_turn" };
+    },
+  };
+}
+
+async function collect(client: LLMClient, model = "primary-model"): Promise<StreamEvent[]> {
+  const events: StreamEvent[] = [];
+  for await (const event of client.stream({
+    model,
+    system: "",
+    messages: [],
+    tools: [],
+    max_tokens: 100,
+  })) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("isRetryable", () => {
+  it("retries rate limits, overload and server errors", () => {
+    expect(isRetryable(httpError(429))).toBe(true);
+    expect(isRetryable(httpError(529))).toBe(true);
+    expect(isRetryable(httpError(503))).toBe(true);
+  });
+
+  it("does not retry client errors", () => {
+    expect(isRetryable(httpError(400))).toBe(false);
+    expect(isRetryable(httpError(401))).toBe(false);
+    expect(isRetryable(new Error("boom"))).toBe(false);
+  });
+
+  it("retries overloaded_error stream events", () => {
+    const err = Object.assign(new Error("Overloaded"), {
+      error: { type: "error", error: { type: "overloaded_error" } },
+    });
+    expect(isRetryable(err)).toBe(true);
+  });
+});
+
+describe("retryAfterMs", () => {
+  it("reads retry-after seconds", () => {
+    expect(retryAfterMs(httpError(429, { "retry-after": "3" }))).toBe(3000);
+  });
+
+  it("prefers retry-after-ms", () => {
+    expect(retryAfterMs(httpError(429, { "retry-after-ms": "250", "retry-after": "3" }))).toBe(250);
+  });
+
+  it("supports a Headers object", () => {
+    const err = Object.assign(new Error("429"), {
+      status: 429,
+      headers: new Headers({ "retry-after": "2" }),
+    });
+    expect(retryAfterMs(err)).toBe(2000);
+  });
+
+  it("returns undefined without headers", () => {
+    expect(retryAfterMs(new Error("x"))).toBeUndefined();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("grows exponentially and stays within the cap", () => {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const base = Math.min(1000, 100 * 2 ** attempt);
+      const delay = backoffDelay(attempt, OPTIONS);
+      expect(delay).toBeGreaterThanOrEqual(base / 2);
+      expect(delay).toBeLessThanOrEqual(base);
+    }
+  });
+});
+
+describe("RetryingClient", () => {
+  it("retries transient errors and then succeeds", async () => {
+    const wait = vi.fn(async () => {});
+    const client = new RetryingClient(
+      flakyClient([httpError(429, { "retry-after": "1" }), httpError(529)]),
+      [],
+      OPTIONS,
+      wait,
+    );
+
+    const events = await collect(client);
+
+    expect(events[0]).toEqual({ type: "text", text: "ok" });
+    expect(wait).toHaveBeenCalledTimes(2);
+    expect(wait.mock.calls[0][0]).toBe(1000);
+  });
+
+  it("does not retry non-retryable errors", async () => {
+    const wait = vi.fn(async () => {});
+    const client = new RetryingClient(flakyClient([httpError(400)]), [], OPTIONS, wait);
+
+    await expect(collect(client)).rejects.toThrow("HTTP 400");
+    expect(wait).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the next model after retries run out", async () => {
+    const primaryModels: string[] = [];
+    const fallbackModels: string[] = [];
+    const primary = flakyClient([httpError(529), httpError(529), httpError(529)], primaryModels);
+    const fallback = flakyClient([], fallbackModels);
+    const client = new RetryingClient(
+      primary,
+      [{ model: "backup-model", client: fallback }],
+      OPTIONS,
+      async () => {},
+    );
+
+    const events = await collect(client);
+
+    expect(primaryModels).toEqual(["primary-model", "primary-model", "primary-model"]);
+    expect(fallbackModels).toEqual(["backup-model"]);
+    // Usage is tagged with the model that served the call
+    expect(events.find((e) => e.type === "usage")).toMatchObject({ model: "backup-model" });
+  });
+
+  it("throws the last error when every model fails", async () => {
+    const client = new RetryingClient(
+      flakyClient([httpError(503), httpError(503), httpError(503)]),
+      [{ model: "backup", client: flakyClient([httpError(502), httpError(502), httpError(502)]) }],
+      OPTIONS,
+      async () => {},
+    );
+
+    await expect(collect(client)).rejects.toThrow("HTTP 502");
+  });
+
+  it("does not retry once events have been streamed", async () => {
+    let calls = 0;
+    const midStream: LLMClient = {
+      async *stream() {
+        calls++;
+        yield { type: "text", text: "partial" };
+        throw httpError(529);
+      },
+    };
+    const client = new RetryingClient(midStream, [], OPTIONS, async () => {});
+
+    await expect(collect(client)).rejects.toThrow("HTTP 529");
+    expect(calls).toBe(1);
+  });
+});
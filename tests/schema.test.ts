@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { validateInput } from "../src/schema.js";
+
+const BASH_SCHEMA = {
+  type: "object",
+  properties: {
+    command: { type: "string" },
+    timeout: { type: "number", minimum: 0 },
+  },
+  required: ["command"],
+};
+
+describe("validateInput", () => {
+  it("accepts valid input unchanged", () => {
+    expect(validateInput(BASH_SCHEMA, { command: "ls", timeout: 500 })).toEqual({
+      valid: true,
+      value: { command: "ls", timeout: 500 },
+    });
+  });
+
+  it("reports missing required fields", () => {
+    expect(validateInput(BASH_SCHEMA, { timeout: 5 })).toEqual({
+      valid: false,
+      errors: ["input.command: is required"],
+    });
+  });
+
+  it("reports type mismatches that cannot be coerced", () => {
+    const result = validateInput(BASH_SCHEMA, { command: "ls", timeout: "soon" });
+    expect(result).toEqual({
+      valid: false,
+      errors: ['input.timeout: expected number, got string "soon"'],
+    });
+  });
+
+  it("coerces numeric and boolean strings and scalars to strings", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        limit: { type: "integer" },
+        ratio: { type: "number" },
+        force: { type: "boolean" },
+        name: { type: "string" },
+      },
+    };
+
+    expect(
+      validateInput(schema, { limit: "30", ratio: " 0.5 ", force: "true", name: 42 }),
+    ).toEqual({ valid: true, value: { limit: 30, ratio: 0.5, force: true, name: "42" } });
+  });
+
+  it("does not coerce where the intent is unclear", () => {
+    const schema = { type: "object", properties: { limit: { type: "integer" }, on: { type: "boolean" } } };
+    const result = validateInput(schema, { limit: "2.5", on: "yes" });
+    expect(result.valid).toBe(false);
+  });
+
+  it("checks enums, bounds and nested arrays", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        mode: { enum: ["fast", "slow"] },
+        timeout: { type: "number", minimum: 0 },
+        files: { type: "array", items: { type: "string", minLength: 1 } },
+      },
+    };
+
+    const result = validateInput(schema, { mode: "medium", timeout: -1, files: ["a", ""] });
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        'input.mode: must be one of "fast", "slow"',
+        "input.timeout: must be >= 0",
+        "input.files[1]: must be at least 1 characters",
+      ],
+    });
+  });
+
+  it("rejects unknown properties only when additionalProperties is false", () => {
+    const strict = { ...BASH_SCHEMA, additionalProperties: false };
+    expect(validateInput(BASH_SCHEMA, { command: "ls", extra: 1 }).valid).toBe(true);
+    expect(validateInput(strict, { command: "ls", extra: 1 })).toEqual({
+      valid: false,
+      errors: ["input.extra: is not an allowed property"],
+    });
+  });
+
+  it("skips type checks for unknown type names", () => {
+    const schema = { type: "object", properties: { q: { type: "str" } } };
+    expect(validateInput(schema, { q: 1 }).valid).toBe(true);
+  });
+});
@@ -16,9 +16,17 @@ vi.mock("os", async () => {
 });
 
 // Dynamic import after mock is set up — SESSIONS_DIR will use TEST_HOME
-const { createSession, loadSession, appendMessage, listSessions } = await import(
-  "../src/session.js"
-);
+const {
+  createSession,
+  loadSession,
+  appendMessage,
+  appendUsage,
+  loadSessionUsage,
+  listSessions,
+  setSessionSampling,
+  appendPermission,
+  loadSessionPermissions,
+} = await import("../src/session.js");
 
 const SESSIONS_DIR = join(TEST_HOME, ".slimclaw", "sessions");
 
@@ -147,6 +155,65 @@ describe("session", () => {
     });
   });
 
+  describe("usage", () => {
+    const usage = { inputTokens: 10, outputTokens: 5, cacheReadTokens: 0, cacheWriteTokens: 0 };
+
+    it("stores usage entries alongside messages", () => {
+      const session = createSession("usage-test");
+      appendMessage(session, { role: "user", content: "Hi" });
+      appendUsage(session, "gpt-4o", usage);
+
+      expect(loadSessionUsage("usage-test")).toEqual([{ model: "gpt-4o", usage }]);
+    });
+
+    it("keeps usage entries out of the message history", () => {
+      const session = createSession("usage-history");
+      appendMessage(session, { role: "user", content: "Hi" });
+      appendUsage(session, "gpt-4o", usage);
+
+      expect(session.messages).toHaveLength(1);
+      expect(loadSession("usage-history").messages).toHaveLength(1);
+    });
+
+    it("throws when the session does not exist", () => {
+      expect(() => loadSessionUsage("nonexistent")).toThrow("Session not found");
+    });
+  });
+
+  describe("permission log", () => {
+    it("records decisions outside the message history", () => {
+      const session = createSession("permission-test");
+      appendMessage(session, { role: "user", content: "Hi" });
+      appendPermission(session, {
+        toolUseId: "tu1",
+        tool: "bash",
+        decision: "deny",
+        source: "rule",
+        rule: 'bash command "rm"',
+      });
+      appendPermission(session, { toolUseId: "tu2", tool: "bash", decision: "allow", source: "user" });
+
+      expect(loadSessionPermissions("permission-test")).toEqual([
+        { toolUseId: "tu1", tool: "bash", decision: "deny", source: "rule", rule: 'bash command "rm"' },
+        { toolUseId: "tu2", tool: "bash", decision: "allow", source: "user" },
+      ]);
+      expect(loadSession("permission-test").messages).toHaveLength(1);
+    });
+  });
+
+  describe("sampling settings", () => {
+    it("persists the latest overrides", () => {
+      const session = createSession("sampling-test");
+      appendMessage(session, { role: "user", content: "Hi" });
+      setSessionSampling(session, { temperature: 1 });
+      setSessionSampling(session, { temperature: 0, toolChoice: { name: "bash" } });
+
+      const loaded = loadSession("sampling-test");
+      expect(loaded.sampling).toEqual({ temperature: 0, toolChoice: { name: "bash" } });
+      expect(loaded.messages).toHaveLength(1);
+    });
+  });
+
   describe("listSessions", () => {
     it("returns an empty array when no sessions exist", () => {
       const sessions = listSessions();
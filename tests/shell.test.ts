@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { realpathSync } from "fs";
+import * as childProcess from "child_process";
+import { tempDir } from "./helpers.js";
+
+// Pass spawn through, so a test can make one spawn fail for real
+vi.mock("child_process", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("child_process")>();
+  return { ...actual, spawn: vi.fn(actual.spawn) };
+});
+
+const { ShellManager } = await import("../src/shell.js");
+type ShellManager = import("../src/shell.js").ShellManager;
+type CommandOptions = import("../src/shell.js").CommandOptions;
+
+const options: CommandOptions = { timeout: 5_000 };
+
+describe.skipIf(process.platform === "win32")("ShellManager", () => {
+  let shells: ShellManager;
+  let tmp: ReturnType<typeof tempDir>;
+
+  beforeEach(() => {
+    tmp = tempDir();
+    shells = new ShellManager(60_000);
+  });
+
+  afterEach(() => {
+    shells.closeAll();
+    tmp.cleanup();
+  });
+
+  it("keeps the working directory and environment between commands", async () => {
+    await shells.run("s1", `cd ${tmp.path} && export GREETING=hi`, options);
+    const run = await shells.run("s1", 'pwd; echo "$GREETING"', options);
+
+    expect(run.exitCode).toBe(0);
+    expect(run.output).toBe(`${realpathSync(tmp.path)}\nhi\n`);
+  });
+
+  it("gives each session its own shell", async () => {
+    await shells.run("s1", "export NAME=one", options);
+    const run = await shells.run("s2", 'echo "[$NAME]"', options);
+
+    expect(run.output).toBe("[]\n");
+    expect(shells.size).toBe(2);
+  });
+
+  it("reports the exit status and keeps output without a trailing newline", async () => {
+    const run = await shells.run("s1", "printf partial; false", options);
+
+    expect(run.output).toBe("partial");
+    expect(run.exitCode).toBe(1);
+    expect(run.shellRestarted).toBeUndefined();
+  });
+
+  it("captures stderr", async () => {
+    const run = await shells.run("s1", "echo oops >&2; echo fine", options);
+    expect(run.output).toBe("oops\nfine\n");
+  });
+
+  it("keeps the shell's state through syntax errors", async () => {
+    await shells.run("s1", `cd ${tmp.path} && export FOO=bar`, options);
+
+    for (const typo of ["if then", "echo ${x", "echo 'unclosed"]) {
+      const broken = await shells.run("s1", typo, options);
+      expect(broken.exitCode).not.toBe(0);
+      expect(broken.output).not.toBe("");
+      expect(broken.shellRestarted).toBeUndefined();
+    }
+
+    const run = await shells.run("s1", 'pwd; echo "$FOO"', options);
+    expect(run.output).toBe(`${realpathSync(tmp.path)}\nbar\n`);
+  });
+
+  it("does not let commands read the sentinel from stdin", async () => {
+    const run = await shells.run("s1", "cat; echo after", options);
+
+    expect(run.output).toBe("after\n");
+    expect(run.exitCode).toBe(0);
+  });
+
+  it("streams output as it arrives", async () => {
+    const chunks: string[] = [];
+    const run = await shells.run("s1", "echo first; sleep 0.2; echo second", {
+      ...options,
+      onProgress: (text) => chunks.push(text),
+    });
+
+    expect(chunks.join("")).toBe(run.output);
+    expect(run.output).toBe("first\nsecond\n");
+  });
+
+  it("starts a new shell after the old one exits", async () => {
+    await shells.run("s1", "export KEPT=yes", options);
+    const exited = await shells.run("s1", "echo bye; exit 4", options);
+    expect(exited).toMatchObject({ exitCode: 4, output: "bye\n", shellRestarted: true });
+
+    const run = await shells.run("s1", 'echo "[$KEPT]"', options);
+    expect(run.output).toBe("[]\n");
+  });
+
+  it("kills the shell on timeout and recovers", async () => {
+    const timedOut = await shells.run("s1", "sleep 10", { timeout: 200 });
+    expect(timedOut).toMatchObject({ timedOut: true, shellRestarted: true });
+
+    const run = await shells.run("s1", "echo alive", options);
+    expect(run).toMatchObject({ exitCode: 0, output: "alive\n" });
+  });
+
+  it("kills the shell when the signal is aborted", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const run = await shells.run("s1", "sleep 10", { ...options, signal: controller.signal });
+
+    expect(run.cancelled).toBe(true);
+  });
+
+  it("reset forgets the shell's state", async () => {
+    await shells.run("s1", "export KEPT=yes", options);
+    shells.reset("s1");
+    expect(shells.size).toBe(0);
+
+    const run = await shells.run("s1", 'echo "[$KEPT]"', options);
+    expect(run.output).toBe("[]\n");
+  });
+
+  it("runs commands for one session one at a time", async () => {
+    const [first, second] = await Promise.all([
+      shells.run("s1", "sleep 0.2; echo first", options),
+      shells.run("s1", "echo second", options),
+    ]);
+
+    expect(first.output).toBe("first\n");
+    expect(second.output).toBe("second\n");
+  });
+
+  it("reports a shell that fails to start instead of crashing", async () => {
+    const actual = await vi.importActual<typeof import("child_process")>("child_process");
+    vi.mocked(childProcess.spawn).mockImplementationOnce(((
+      _command: string,
+      _args: string[],
+      spawnOptions: childProcess.SpawnOptions,
+    ) => actual.spawn("/nonexistent/sh", [], spawnOptions)) as typeof childProcess.spawn);
+
+    const failed = await shells.run("s1", "echo hi", options);
+    expect(failed.exitCode).not.toBe(0);
+    expect(failed.error?.message).toContain("ENOENT");
+
+    const run = await shells.run("s1", "echo hi", options);
+    expect(run).toMatchObject({ exitCode: 0, output: "hi\n" });
+  });
+
+  it("closes shells that stay idle", async () => {
+    shells = new ShellManager(100);
+    await shells.run("s1", "true", options);
+    expect(shells.size).toBe(1);
+
+    await new Promise((r) => setTimeout(r, 300));
+    expect(shells.size).toBe(0);
+  });
+});
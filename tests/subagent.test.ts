@@ -80,6 +80,25 @@ describe("spawnSubAgent", () => {
     expect(result).toBe("Hello from sub-agent!");
   });
 
+  it("applies the unattended approval policy to risky tools", async () => {
+    const config = testConfig({ approval: { tools: ["test_tool"], unattended: "deny" } });
+    const mockTool: Tool = {
+      definition: { name: "test_tool", description: "A test tool", input_schema: { type: "object" } },
+      execute: vi.fn().mockResolvedValue("tool result"),
+    };
+    const client = mockClientWithToolUse("Trying. ", "test_tool", {}, "Could not.");
+
+    const result = await spawnSubAgent(
+      config,
+      { name: "unattended", systemPrompt: "", task: "Use the tool." },
+      client,
+      [mockTool],
+    );
+
+    expect(mockTool.execute).not.toHaveBeenCalled();
+    expect(result).toBe("Trying. Could not.");
+  });
+
   it("uses custom system prompt", async () => {
     const config = testConfig();
     // We can verify the system prompt is passed by checking that the client receives it
@@ -196,6 +215,27 @@ describe("createSubAgentTool", () => {
     expect(result).toBe("I completed the task.");
   });
 
+  it("passes per-call sampling settings to the sub-agent", async () => {
+    const config = testConfig({ sampling: { temperature: 0.7, topP: 0.9 } });
+    const received: Array<Record<string, unknown>> = [];
+    const client: LLMClient = {
+      async *stream(params): AsyncIterable<StreamEvent> {
+        received.push({ ...params });
+        yield { type: "text", text: "done" };
+        yield { type: "message_stop", stop_reason: "end_turn" };
+      },
+    };
+    const echo: Tool = {
+      definition: { name: "echo", description: "Echo", input_schema: { type: "object" } },
+      execute: async () => "echo",
+    };
+
+    const tool = createSubAgentTool(config, client, [echo]);
+    await tool.execute({ name: "det", task: "Do it.", temperature: 0, tool_choice: "echo" });
+
+    expect(received[0]).toMatchObject({ temperature: 0, topP: 0.9, toolChoice: { name: "echo" } });
+  });
+
   it("uses empty system prompt when not provided", async () => {
     const config = testConfig();
     let receivedSystem = "";
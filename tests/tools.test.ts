@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { writeFileSync, readFileSync, mkdirSync } from "fs";
+import { writeFileSync, readFileSync, mkdirSync, existsSync, symlinkSync, realpathSync } from "fs";
 import { join } from "path";
-import { createBuiltinTools, truncateToolResult } from "../src/tools.js";
-import type { Tool } from "../src/tools.js";
+import { createBuiltinTools, truncateToolResult, toToolResult } from "../src/tools.js";
+import type { Tool, ToolResult } from "../src/tools.js";
+import { ShellManager } from "../src/shell.js";
+import type { ToolResultContent } from "../src/session.js";
 import { tempDir } from "./helpers.js";
 
 describe("truncateToolResult", () => {
@@ -40,6 +42,21 @@ describe("truncateToolResult", () => {
   });
 });
 
+/** Whether a process is alive; a killed but unreaped (zombie) process is not. */
+function isRunning(pid: number): boolean {
+  try {
+    return readFileSync(`/proc/${pid}/stat`, "utf-8").split(" ")[2] !== "Z";
+  } catch {
+    // No /proc (macOS) or no such process
+  }
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 describe("built-in tools", () => {
   let tools: Tool[];
   let tmp: ReturnType<typeof tempDir>;
@@ -53,6 +70,12 @@ describe("built-in tools", () => {
     tmp.cleanup();
   });
 
+  /** Text of a tool's return value, whether bare or structured. */
+  function textOf(result: ToolResultContent | ToolResult): string {
+    const content = toToolResult(result).content;
+    return typeof content === "string" ? content : "";
+  }
+
   function findTool(name: string): Tool {
     const tool = tools.find((t) => t.definition.name === name);
     if (!tool) throw new Error(`Tool ${name} not found`);
@@ -71,8 +94,9 @@ describe("built-in tools", () => {
       const result = await bash.execute({
         command: "echo err >&2 && exit 1",
       });
-      expect(result).toContain("Exit code: 1");
-      expect(result).toContain("err");
+      expect(result).toMatchObject({ isError: true, metadata: { exitCode: 1 } });
+      expect(textOf(result)).toContain("Exit code: 1");
+      expect(textOf(result)).toContain("err");
     });
 
     it("handles command timeout", async () => {
@@ -82,7 +106,114 @@ describe("built-in tools", () => {
         timeout: 100,
       });
       // Should return an error, not hang
-      expect(result).toContain("Exit code:");
+      expect(result).toMatchObject({ isError: true });
+      expect(textOf(result)).toContain("Exit code:");
+    });
+
+    it("kills the command when the signal is aborted", async () => {
+      const bash = findTool("bash");
+      const controller = new AbortController();
+      const started = Date.now();
+      setTimeout(() => controller.abort(), 100);
+      const result = await bash.execute(
+        { command: "sleep 10" },
+        { signal: controller.signal },
+      );
+      expect(Date.now() - started).toBeLessThan(5_000);
+      expect(textOf(result)).toContain("Cancelled by user");
+    });
+
+    it("combines stdout and stderr in arrival order", async () => {
+      const bash = findTool("bash");
+      const result = await bash.execute({
+        command: "echo one; sleep 0.1; echo two >&2; sleep 0.1; echo three; exit 3",
+      });
+      expect(result).toMatchObject({ isError: true, metadata: { exitCode: 3 } });
+      expect(textOf(result)).toBe("Exit code: 3\none\ntwo\nthree\n");
+    });
+
+    it("streams output while the command runs", async () => {
+      const bash = findTool("bash");
+      const chunks: string[] = [];
+      let ticks = 0;
+      const ticker = setInterval(() => ticks++, 20);
+
+      await bash.execute(
+        { command: "echo first; sleep 0.3; echo second" },
+        { onProgress: (text) => chunks.push(text) },
+      );
+      clearInterval(ticker);
+
+      expect(chunks.join("")).toBe("first\nsecond\n");
+      expect(chunks.length).toBeGreaterThanOrEqual(2);
+      // The event loop kept running while the command slept
+      expect(ticks).toBeGreaterThan(3);
+    });
+
+    it.skipIf(process.platform === "win32")(
+      "kills the whole process tree on timeout",
+      async () => {
+        const bash = findTool("bash");
+        const pidFile = join(tmp.path, "child.pid");
+        const result = await bash.execute({
+          command: `sleep 30 & echo $! > ${pidFile}; wait`,
+          timeout: 300,
+        });
+
+        expect(textOf(result)).toContain("Timed out after 300 ms");
+        const pid = Number(readFileSync(pidFile, "utf-8").trim());
+        await new Promise((r) => setTimeout(r, 100));
+        expect(isRunning(pid)).toBe(false);
+      },
+    );
+  });
+
+  describe.skipIf(process.platform === "win32")("bash with persistent shells", () => {
+    let shells: ShellManager;
+    let bash: Tool;
+
+    beforeEach(() => {
+      shells = new ShellManager(60_000);
+      bash = createBuiltinTools({ maxToolResultChars: 100_000, shells })[0];
+    });
+
+    afterEach(() => {
+      shells.closeAll();
+    });
+
+    it("keeps state between calls in the same session", async () => {
+      await bash.execute({ command: `cd ${tmp.path}` }, { sessionId: "s1" });
+      const result = await bash.execute({ command: "pwd" }, { sessionId: "s1" });
+      expect(textOf(result)).toBe(`${realpathSync(tmp.path)}\n`);
+    });
+
+    it("resets the shell on request", async () => {
+      await bash.execute({ command: "export KEPT=yes" }, { sessionId: "s1" });
+      expect(await bash.execute({ reset: true }, { sessionId: "s1" })).toContain("Shell reset");
+
+      const result = await bash.execute(
+        { command: 'echo "[$KEPT]"' },
+        { sessionId: "s1" },
+      );
+      expect(textOf(result)).toBe("[]\n");
+    });
+
+    it("notes that the shell exited", async () => {
+      const result = await bash.execute({ command: "exit 2" }, { sessionId: "s1" });
+      expect(result).toMatchObject({ isError: true, metadata: { exitCode: 2 } });
+      expect(textOf(result)).toContain("The shell exited");
+    });
+
+    it("falls back to a fresh shell without a session", async () => {
+      await bash.execute({ command: "export KEPT=yes" });
+      expect(textOf(await bash.execute({ command: 'echo "[$KEPT]"' }))).toBe("[]\n");
+      expect(shells.size).toBe(0);
+    });
+
+    it("requires a command unless resetting", async () => {
+      const result = await bash.execute({}, { sessionId: "s1" });
+      expect(result).toMatchObject({ isError: true });
+      expect(textOf(result)).toContain("command is required");
     });
   });
 
@@ -116,12 +247,29 @@ describe("built-in tools", () => {
       expect(result).not.toContain("4\td");
     });
 
+    it("returns images as image blocks", async () => {
+      const filePath = join(tmp.path, "pixel.png");
+      const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+      writeFileSync(filePath, bytes);
+
+      const readFile = findTool("read_file");
+      const result = await readFile.execute({ path: filePath });
+
+      expect(result).toEqual([
+        {
+          type: "image",
+          source: { type: "base64", media_type: "image/png", data: bytes.toString("base64") },
+        },
+      ]);
+    });
+
     it("returns error for nonexistent file", async () => {
       const readFile = findTool("read_file");
       const result = await readFile.execute({
         path: join(tmp.path, "nope.txt"),
       });
-      expect(result).toContain("Error: File not found");
+      expect(result).toMatchObject({ isError: true });
+      expect(textOf(result)).toContain("Error: File not found");
     });
   });
 
@@ -177,7 +325,8 @@ describe("built-in tools", () => {
         new_string: "replaced",
       });
 
-      expect(result).toContain("appears 3 times");
+      expect(result).toMatchObject({ isError: true });
+      expect(textOf(result)).toContain("appears 3 times");
     });
 
     it("returns error when old_string not found", async () => {
@@ -191,7 +340,8 @@ describe("built-in tools", () => {
         new_string: "replacement",
       });
 
-      expect(result).toContain("not found");
+      expect(result).toMatchObject({ isError: true });
+      expect(textOf(result)).toContain("not found");
     });
 
     it("returns error for nonexistent file", async () => {
@@ -202,7 +352,75 @@ describe("built-in tools", () => {
         new_string: "b",
       });
 
-      expect(result).toContain("Error: File not found");
+      expect(result).toMatchObject({ isError: true });
+      expect(textOf(result)).toContain("Error: File not found");
+    });
+  });
+
+  describe("structured results", () => {
+    it("flags truncated output", async () => {
+      const small = createBuiltinTools({ maxToolResultChars: 2_000 });
+      const bash = small.find((t) => t.definition.name === "bash")!;
+      const result = await bash.execute({ command: "seq 1 5000" });
+
+      expect(result).toMatchObject({ metadata: { truncated: true } });
+      expect(textOf(result)).toContain("[Truncated:");
+    });
+
+    it("leaves successful untruncated output bare", async () => {
+      const bash = findTool("bash");
+      expect(await bash.execute({ command: "echo ok" })).toBe("ok\n");
+    });
+  });
+
+  describe("workspace sandbox", () => {
+    let root: string;
+    let outside: string;
+    let sandboxed: Tool[];
+
+    beforeEach(() => {
+      root = join(tmp.path, "workspace");
+      outside = join(tmp.path, "outside");
+      mkdirSync(root);
+      mkdirSync(outside);
+      writeFileSync(join(outside, "secret.txt"), "top secret");
+      sandboxed = createBuiltinTools({
+        maxToolResultChars: 100_000,
+        workspace: { root, readRoots: [] },
+        memoryDir: join(tmp.path, "memory"),
+      });
+    });
+
+    const tool = (name: string) => sandboxed.find((t) => t.definition.name === name)!;
+
+    it("reads and writes relative paths inside the root", async () => {
+      await tool("write_file").execute({ path: "notes/a.txt", content: "hi" });
+      expect(readFileSync(join(root, "notes", "a.txt"), "utf-8")).toBe("hi");
+      expect(textOf(await tool("read_file").execute({ path: "notes/a.txt" }))).toContain("hi");
+    });
+
+    it("rejects paths outside the root", async () => {
+      const secret = join(outside, "secret.txt");
+      await expect(tool("read_file").execute({ path: secret })).rejects.toThrow("Access denied");
+      await expect(
+        tool("write_file").execute({ path: "../outside/new.txt", content: "x" }),
+      ).rejects.toThrow("Access denied");
+      expect(existsSync(join(outside, "new.txt"))).toBe(false);
+      await expect(
+        tool("edit_file").execute({ path: secret, old_string: "top", new_string: "no" }),
+      ).rejects.toThrow("Access denied");
+    });
+
+    it("rejects symlinks that lead out of the root", async () => {
+      symlinkSync(outside, join(root, "escape"));
+      await expect(tool("read_file").execute({ path: "escape/secret.txt" })).rejects.toThrow(
+        "Access denied",
+      );
+    });
+
+    it("allows the memory directory for bootstrap files", async () => {
+      await tool("write_file").execute({ path: join(tmp.path, "memory", "SOUL.md"), content: "Calm." });
+      expect(readFileSync(join(tmp.path, "memory", "SOUL.md"), "utf-8")).toBe("Calm.");
     });
   });
 
@@ -219,6 +437,11 @@ describe("built-in tools", () => {
       }
     });
 
+    it("marks only read_file as concurrent", () => {
+      const concurrent = tools.filter((t) => t.concurrent).map((t) => t.definition.name);
+      expect(concurrent).toEqual(["read_file"]);
+    });
+
     it("includes bash, read_file, write_file, edit_file", () => {
       const names = tools.map((t) => t.definition.name).sort();
       expect(names).toEqual(["bash", "edit_file", "read_file", "write_file"]);
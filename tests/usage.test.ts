@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  costOf,
+  findPrice,
+  summarizeUsage,
+  emptyUsage,
+  DEFAULT_PRICING,
+} from "../src/usage.js";
+
+const PRICING = {
+  "claude-sonnet-4": { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+describe("findPrice", () => {
+  it("matches dated model names by prefix", () => {
+    expect(findPrice("claude-sonnet-4-20250514", PRICING)).toBe(PRICING["claude-sonnet-4"]);
+  });
+
+  it("prefers the longest matching key", () => {
+    expect(findPrice("gpt-4o-mini-2024-07-18", PRICING)).toBe(PRICING["gpt-4o-mini"]);
+    expect(findPrice("gpt-4o-2024-08-06", PRICING)).toBe(PRICING["gpt-4o"]);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(findPrice("llama3.1:8b", PRICING)).toBeUndefined();
+  });
+});
+
+describe("costOf", () => {
+  it("prices input, output and cache tokens per million", () => {
+    const cost = costOf(
+      { inputTokens: 1_000_000, outputTokens: 100_000, cacheReadTokens: 1_000_000, cacheWriteTokens: 0 },
+      "claude-sonnet-4-20250514",
+      PRICING,
+    );
+    expect(cost).toBeCloseTo(3 + 1.5 + 0.3);
+  });
+
+  it("falls back to the input price for cache tokens", () => {
+    const cost = costOf(
+      { inputTokens: 0, outputTokens: 0, cacheReadTokens: 1_000_000, cacheWriteTokens: 0 },
+      "gpt-4o",
+      PRICING,
+    );
+    expect(cost).toBeCloseTo(2.5);
+  });
+
+  it("is zero for unpriced models", () => {
+    expect(costOf({ ...emptyUsage(), inputTokens: 5000 }, "local-model", PRICING)).toBe(0);
+  });
+});
+
+describe("summarizeUsage", () => {
+  it("sums tokens, calls and cost across records", () => {
+    const totals = summarizeUsage(
+      [
+        { model: "gpt-4o", usage: { ...emptyUsage(), inputTokens: 1000, outputTokens: 200 } },
+        {
+          model: "gpt-4o",
+          usage: { ...emptyUsage(), inputTokens: 3000, outputTokens: 800, reasoningTokens: 500 },
+        },
+      ],
+      PRICING,
+    );
+    expect(totals.reasoningTokens).toBe(500);
+    expect(totals.inputTokens).toBe(4000);
+    expect(totals.outputTokens).toBe(1000);
+    expect(totals.calls).toBe(2);
+    expect(totals.cost).toBeCloseTo((4000 * 2.5 + 1000 * 10) / 1_000_000);
+  });
+
+  it("returns zeros for no records", () => {
+    expect(summarizeUsage([], DEFAULT_PRICING)).toEqual({
+      ...emptyUsage(),
+      reasoningTokens: 0,
+      calls: 0,
+      cost: 0,
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdirSync, writeFileSync, symlinkSync, realpathSync } from "fs";
+import { join } from "path";
+import { realResolve, resolveWithin, isInside, Workspace } from "../src/workspace.js";
+import { tempDir } from "./helpers.js";
+
+describe("workspace", () => {
+  let tmp: ReturnType<typeof tempDir>;
+  let root: string;
+  let outside: string;
+
+  beforeEach(() => {
+    tmp = tempDir();
+    const base = realpathSync(tmp.path);
+    root = join(base, "project");
+    outside = join(base, "outside");
+    mkdirSync(join(root, "src"), { recursive: true });
+    mkdirSync(outside);
+    writeFileSync(join(outside, "secret.txt"), "secret");
+  });
+
+  afterEach(() => {
+    tmp.cleanup();
+  });
+
+  describe("realResolve", () => {
+    it("follows symlinks", () => {
+      symlinkSync(outside, join(root, "link"));
+      expect(realResolve("link/secret.txt", root)).toBe(join(outside, "secret.txt"));
+    });
+
+    it("appends components that do not exist yet to the real parent", () => {
+      symlinkSync(outside, join(root, "link"));
+      expect(realResolve("link/new/file.txt", root)).toBe(join(outside, "new", "file.txt"));
+    });
+
+    it("rejects dangling symlinks", () => {
+      symlinkSync(join(outside, "missing.txt"), join(root, "dangling"));
+      expect(() => realResolve("dangling", root)).toThrow("broken symlink");
+    });
+  });
+
+  describe("isInside", () => {
+    it("treats the root and its children as inside", () => {
+      expect(isInside("/a/b", "/a/b")).toBe(true);
+      expect(isInside("/a/b/c", "/a/b")).toBe(true);
+      expect(isInside("/a/bc", "/a/b")).toBe(false);
+      expect(isInside("/a", "/a/b")).toBe(false);
+    });
+
+    it("allows names that merely start with two dots", () => {
+      expect(isInside("/a/b/..hidden", "/a/b")).toBe(true);
+    });
+  });
+
+  describe("resolveWithin", () => {
+    it("rejects traversal out of the roots", () => {
+      expect(() => resolveWithin("../outside/secret.txt", [root], root)).toThrow("Access denied");
+      expect(() => resolveWithin("/etc/passwd", [root], root)).toThrow("outside the allowed");
+    });
+
+    it("rejects symlink escapes", () => {
+      symlinkSync(outside, join(root, "link"));
+      expect(() => resolveWithin("link/secret.txt", [root], root)).toThrow("Access denied");
+    });
+
+    it("returns the real path inside the roots", () => {
+      expect(resolveWithin("src/../src/a.ts", [root], root)).toBe(join(root, "src", "a.ts"));
+    });
+  });
+
+  describe("Workspace", () => {
+    it("resolves relative paths against the root", () => {
+      const workspace = new Workspace({ root, readRoots: [] });
+      expect(workspace.resolveForWrite("src/a.ts")).toBe(join(root, "src", "a.ts"));
+    });
+
+    it("lets read roots be read but not written", () => {
+      const workspace = new Workspace({ root, readRoots: [outside] });
+      const secret = join(outside, "secret.txt");
+
+      expect(workspace.resolveForRead(secret)).toBe(secret);
+      expect(() => workspace.resolveForWrite(secret)).toThrow("Access denied");
+    });
+
+    it("makes extra write roots writable", () => {
+      const workspace = new Workspace({ root, readRoots: [] }, [outside]);
+      expect(workspace.resolveForWrite(join(outside, "SOUL.md"))).toBe(join(outside, "SOUL.md"));
+    });
+  });
+});